@@ -1,44 +1,133 @@
 import { ref, computed } from 'vue'
-import type { TournamentState } from '~/types/tournament'
+import type { TournamentState, TournamentConfig, TournamentEvent, TournamentEventData, RepresentativeLoad, VoteStrength } from '~/types/tournament'
+import type { Vote } from '~/types/ranking'
+import { DEFAULT_TOURNAMENT_CONFIG, ROUND_ROBIN_MAX_POOL } from '~/types/tournament'
+import type { ArchetypeCatalog, ArchetypeMeta, PoolFilter } from '~/types/pool'
 import { useTournament } from '~/composables/useTournament'
 import { useCardLanguage, capitalizeArchetypeName, setPartnerMapFromCache, setRepresentativeMapFromCache, setEntityCardIdsFromCache, prefetchRepresentativesForArchetypes, clearRepresentativeResultCacheForNames } from '~/composables/useYgoApi'
 import { getCachedValidArchetypes, setCachedValidArchetypes } from '~/utils/archetypeCache'
-import { getOrCreateUserId, saveVote } from '~/utils/rankingStorage'
+import { getOrCreateUserId, saveVote, loadPersonalRanking, importVotes } from '~/utils/rankingStorage'
+import { downloadStateFile, parseStateFile, votesOfRun } from '~/utils/stateFile'
+import { randomSeed } from '~/utils/random'
+import { listRunsToFree, deleteRun } from '~/utils/runStorage'
+import { displayOrder } from '~/utils/positionBias'
+import { filterPool, adaptConfigToPool, emptyPoolFilter } from '~/utils/poolFilter'
+import { buildRatingSeed, seededConfig, type RatingSeedRequest } from '~/utils/priorRatings'
 
 export function useTournamentState () {
   const state = ref<TournamentState | null>(null)
   const loading = ref(true)
   const transitioning = ref(false)
   const error = ref<string | null>(null)
+  /** Set while the run cannot be saved (storage full); the run goes on in memory */
+  const saveError = ref<string | null>(null)
   const {
     fetchAndAnalyzeArchetypes,
-    createInitialState,
-    getNextMatchSwiss,
-    applyGroupResult,
-    applyEloResult,
+    getNextBracketMatch,
     isPhase3Done,
-    undoLastResult,
-    saveState: persistState,
+    isBracketDone,
+    isRoundRobinDone,
+    saveState,
     loadState: loadPersisted,
     clearState: clearPersisted,
-    ensureRepresentatives,
-    cycleRepresentative,
-    advanceToNextPhaseRound,
+    fetchRepresentatives,
+    startRun,
+    applyEvent,
     getTop10,
-    downloadTop10Csv
+    downloadTop10Csv,
+    downloadRankingCsv,
+    downloadRankingJson
   } = useTournament()
 
   const top10 = computed(() => (state.value ? getTop10(state.value) : []))
   const canUndo = computed(
-    () => !!state.value?.lastMatchResult && state.value.phase !== 'finished'
+    () => !!state.value?.history.length && state.value.phase !== 'finished'
+  )
+  const canRedo = computed(
+    () => !!state.value?.redoStack.length && state.value.phase !== 'finished'
   )
 
   const { language: currentLang } = useCardLanguage()
   const MAX_SKIP_RETRIES = 50
 
-  async function loadFromApi () {
-    error.value = null
+  /** Storage was full and the user was asked once whether old unfinished runs could go */
+  let askedToFreeSpace = false
+
+  /**
+   * Saves the run. When storage is full, offers (once) to delete unfinished runs, least recently
+   * played first, until it fits; otherwise the failure is shown until a later save goes through.
+   */
+  function persistState (s: TournamentState) {
+    if (saveState(s)) {
+      saveError.value = null
+      return
+    }
+    const freeable = listRunsToFree(s.runId)
+    if (freeable.length && !askedToFreeSpace) {
+      askedToFreeSpace = true
+      if (confirm(`Browser storage is full. Delete unfinished runs (up to ${freeable.length}, least recently played first) until this run can be saved? Finished runs are kept.`)) {
+        for (const run of freeable) {
+          deleteRun(run.runId)
+          if (saveState(s)) {
+            saveError.value = null
+            return
+          }
+        }
+      }
+    }
+    saveError.value = 'Browser storage is full: this run is no longer being saved. Delete old runs from the history to free space.'
+  }
+
+  /** Records an event and folds it into the run: every change of the run goes through here. */
+  function dispatch (event: TournamentEventData, loaded?: RepresentativeLoad) {
+    if (!state.value) return
+    state.value = applyEvent(state.value, { ...event, at: new Date().toISOString() } as TournamentEvent, loaded)
+  }
+
+  /** Folds in the representatives fetched for an archetype (the log keeps the card chosen only). */
+  function dispatchLoad (name: string, result: RepresentativeLoad) {
+    dispatch({ type: 'load', name, card: result?.representativeCards?.length ? result.representativeIndex : null }, result)
+  }
+
+  /** Screen slots of the two sides of a vote cast on `s.currentMatch` (shown in that order), and the blind flag. */
+  function voteContext (s: TournamentState, winner: string, loser: string): Pick<Vote, 'winnerSlot' | 'loserSlot' | 'cardsShown' | 'blind'> {
+    const match = s.currentMatch ?? []
+    return {
+      winnerSlot: match.indexOf(winner),
+      loserSlot: match.indexOf(loser),
+      cardsShown: match.length,
+      ...(s.config.blindMode && s.config.blindMode !== 'off' ? { blind: true } : {})
+    }
+  }
+
+  /** Loads the representatives of `names` that are missing (archetypes without images are dropped). */
+  async function loadRepresentatives (names: string[]) {
+    if (!state.value) return
+    for (const { name, result } of await fetchRepresentatives(state.value, names)) {
+      dispatchLoad(name, result)
+    }
+  }
+
+  /** Archetypes that can enter a run, with what the pool filters need (loaded on demand). */
+  const catalog = ref<ArchetypeCatalog | null>(null)
+  let catalogLang: string | null = null
+
+  /** Loads the archetype catalog: from the cache, or by running the pipeline over all cards. */
+  async function loadCatalog (): Promise<ArchetypeCatalog | null> {
     const lang = currentLang.value
+    if (catalog.value && catalogLang === lang) return catalog.value
+    error.value = null
+    const toCatalog = (validNames: string[], metaMap: Record<string, ArchetypeMeta>): ArchetypeCatalog => {
+      const meta: Record<string, ArchetypeMeta> = {}
+      const names = validNames.map((raw) => {
+        const name = capitalizeArchetypeName(raw)
+        if (metaMap[raw]) meta[name] = metaMap[raw]
+        return name
+      })
+      catalogLang = lang
+      catalog.value = { names, meta }
+      return catalog.value
+    }
 
     // ── Check cache first ──
     const cached = await getCachedValidArchetypes(lang)
@@ -46,12 +135,7 @@ export function useTournamentState () {
       setPartnerMapFromCache(cached.partnerMap)
       setRepresentativeMapFromCache(cached.representativeMap)
       setEntityCardIdsFromCache(cached.entityCardMap)
-      const seed = Math.floor(Math.random() * 1e6)
-      state.value = createInitialState(cached.validNames.map(capitalizeArchetypeName), seed)
-      await setNextMatch()
-      prefetchNextGroup()
-      persistState(state.value!)
-      return
+      return toCatalog(cached.validNames, cached.metaMap)
     }
 
     // ── Run the Archetype Intelligence pipeline ──
@@ -60,19 +144,48 @@ export function useTournamentState () {
       result = await fetchAndAnalyzeArchetypes()
     } catch {
       error.value = 'Unable to load archetypes. Check your connection.'
-      return
+      return null
     }
     if (result.validNames.length < 4) {
       error.value = 'Not enough archetypes detected (need at least 4).'
-      return
+      return null
     }
 
     // ── Cache result ──
-    await setCachedValidArchetypes(result.validNames, lang, result.partnerMap, result.representativeMap, result.entityCardMap)
+    await setCachedValidArchetypes(result.validNames, lang, result.partnerMap, result.representativeMap, result.entityCardMap, result.metaMap)
+    return toCatalog(result.validNames, result.metaMap)
+  }
 
-    // ── Create tournament ──
-    const seed = Math.floor(Math.random() * 1e6)
-    state.value = createInitialState(result.validNames.map(capitalizeArchetypeName), seed)
+  /**
+   * Loads the archetypes and starts a run; `seed` replays a given seed (random otherwise), `filter`
+   * narrows the pool and `seeding` starts from past preferences.
+   */
+  async function loadFromApi (
+    config?: TournamentConfig,
+    seed: number = randomSeed(),
+    filter?: PoolFilter,
+    seeding?: RatingSeedRequest
+  ) {
+    error.value = null
+    const loaded = await loadCatalog()
+    if (!loaded) return
+    const names = filter ? filterPool(loaded, filter) : loaded.names
+    if (names.length < 4) {
+      error.value = 'Not enough archetypes match the pool filters (need at least 4).'
+      return
+    }
+    if (config?.finalPhase === 'round-robin' && names.length > ROUND_ROBIN_MAX_POOL) {
+      error.value = `A round robin takes at most ${ROUND_ROBIN_MAX_POOL} archetypes: narrow the pool.`
+      return
+    }
+
+    // ── Create tournament (phase sizes fitted to the pool) ──
+    let runConfig = adaptConfigToPool(config ?? DEFAULT_TOURNAMENT_CONFIG, names.length)
+    const ratingSeed = seeding ? buildRatingSeed(seeding, names, runConfig) : null
+    if (ratingSeed) runConfig = seededConfig(runConfig, seeding!.phase1)
+    // Nothing to seed from: Phase 1 cannot be skipped (a round robin has none)
+    else if (runConfig.finalPhase !== 'round-robin') runConfig = { ...runConfig, coverageRoundCount: Math.max(1, runConfig.coverageRoundCount) }
+    state.value = startRun(names, seed, runConfig, ratingSeed ?? undefined)
     await setNextMatch()
     prefetchNextGroup()
     persistState(state.value!)
@@ -87,44 +200,51 @@ export function useTournamentState () {
       if (s.phase === 'phase1' || s.phase === 'phase2') {
         const groups = s.currentRoundGroups
         if (!groups || s.groupsCompleted >= groups.length) {
-          state.value = advanceToNextPhaseRound(s)
+          dispatch({ type: 'advance' })
           if (state.value?.phase === 'phase2' && state.value.phasePool?.length) {
             clearRepresentativeResultCacheForNames(state.value.phasePool)
           }
-          persistState(state.value)
+          persistState(state.value!)
           continue
         }
         const nextGroup = groups[s.groupsCompleted]!
         const validGroup = nextGroup.filter(n => s.archetypes[n] != null)
         if (validGroup.length < 2) {
-          state.value = { ...s, groupsCompleted: s.groupsCompleted + 1 }
+          dispatch({ type: 'skip' })
           continue
         }
-        state.value = { ...s, currentMatch: validGroup }
-        state.value = await ensureRepresentatives(state.value, validGroup)
+        // Slots are drawn per choice from the seed, so the screen position cannot favor anyone
+        dispatch({ type: 'show', match: displayOrder(s, validGroup) })
+        await loadRepresentatives(validGroup)
         if (state.value?.currentMatch != null && state.value.currentMatch.length >= 2) {
           persistState(state.value)
           prefetchNextGroup()
           return
         }
-        state.value = { ...(state.value ?? s), groupsCompleted: s.groupsCompleted + 1 }
+        // An archetype was dropped: show the rest of the same group (skipped if fewer than 2 remain)
         continue
       }
 
-      if (s.phase === 'phase3') {
-        if (isPhase3Done(s)) {
-          state.value = { ...s, phase: 'finished', currentMatch: null }
-          persistState(state.value)
+      if (s.phase === 'phase3' || s.phase === 'roundRobin') {
+        if (isPhase3Done(s) || isRoundRobinDone(s)) {
+          dispatch({ type: 'finish' })
+          persistState(state.value!)
           return
         }
-        const next = getNextMatchSwiss(s, s.phasePool)
-        if (!next) {
-          state.value = { ...s, phase: 'finished', currentMatch: null }
-          persistState(state.value)
-          return
+        const pairs = s.currentRoundGroups
+        if (!pairs || s.groupsCompleted >= pairs.length) {
+          // Round over (or Swiss round not drawn yet): move on to the next one
+          dispatch({ type: 'advance' })
+          persistState(state.value!)
+          continue
         }
-        state.value = { ...s, currentMatch: next }
-        state.value = await ensureRepresentatives(state.value, next)
+        const next = pairs[s.groupsCompleted]!
+        if (next.length < 2 || next.some(n => s.archetypes[n] == null)) {
+          dispatch({ type: 'skip' })
+          continue
+        }
+        dispatch({ type: 'show', match: displayOrder(s, next) })
+        await loadRepresentatives(next)
         if (state.value?.currentMatch != null && state.value.currentMatch.length === 2) {
           persistState(state.value)
           return
@@ -132,6 +252,24 @@ export function useTournamentState () {
         continue
       }
 
+      if (s.phase === 'bracket') {
+        const match = s.bracket ? getNextBracketMatch(s.bracket) : null
+        if (!match) {
+          dispatch({ type: 'finish' })
+          persistState(state.value!)
+          return
+        }
+        const pair = displayOrder(s, [match.a!, match.b!])
+        dispatch({ type: 'show', match: pair })
+        const loaded = await fetchRepresentatives(s, pair)
+        // Bracket participants cannot be dropped: keep them (card back) if their images failed
+        if (loaded.every(l => l.result?.representativeCards?.length)) {
+          for (const { name, result } of loaded) dispatchLoad(name, result)
+        }
+        persistState(state.value!)
+        return
+      }
+
       return
     }
   }
@@ -167,13 +305,23 @@ export function useTournamentState () {
     if (nextGroup.length > 0) prefetchRepresentativesForArchetypes(nextGroup)
   }
 
-  /** Phase 1 & 2: user chooses a winner in a group of 4 (or 2-3). */
-  async function pickGroup (winner: string, losers: string[]) {
-    if (!state.value || losers.length < 1) return
+  /**
+   * Phase 1 & 2: user chooses a winner in a group of 4 (or 2-3), or orders the whole group
+   * (`ordered`: losers in finishing order). `shownCards` = card id on screen per archetype,
+   * `strength` = how clear the preference was (weights the rating update).
+   */
+  async function pickGroup (winner: string, losers: string[], shownCards: Record<string, number | null> = {}, ordered = false, strength?: VoteStrength) {
+    const s = state.value
+    if (!s?.currentMatch || losers.length < 1) return
     getOrCreateUserId()
-    for (const loser of losers) saveVote(winner, loser)
-    state.value = applyGroupResult(state.value, winner, losers)
-    persistState(state.value)
+    const order = [winner, ...losers]
+    for (let a = 0; a < (ordered ? order.length : 1); a++) {
+      for (let b = a + 1; b < order.length; b++) {
+        saveVote(order[a]!, order[b]!, { runId: s.runId, ...(strength ? { strength } : {}), ...voteContext(s, order[a]!, order[b]!) })
+      }
+    }
+    dispatch({ type: 'pick', phase: s.phase as 'phase1' | 'phase2', match: s.currentMatch, winner, losers, ...(ordered ? { ordered } : {}), ...(strength ? { strength } : {}), shownCards })
+    persistState(state.value!)
     const showLoaderAfter = setTimeout(() => { transitioning.value = true }, 120)
     try {
       await setNextMatch()
@@ -184,16 +332,38 @@ export function useTournamentState () {
     }
   }
 
-  /** Phase 3 : duel 1v1 Swiss. */
-  async function pickDuel (winner: string, loser: string) {
-    if (!state.value) return
+  /** Phase 1 & 2: skips the current group; its archetypes are moved to later groups of the round. */
+  async function skipGroup () {
+    const s = state.value
+    if (!s?.currentMatch || (s.phase !== 'phase1' && s.phase !== 'phase2')) return
+    dispatch({ type: 'skipGroup', match: s.currentMatch })
+    persistState(state.value!)
+    const showLoaderAfter = setTimeout(() => { transitioning.value = true }, 120)
+    try {
+      await setNextMatch()
+      prefetchNextGroup()
+    } finally {
+      clearTimeout(showLoaderAfter)
+      transitioning.value = false
+    }
+  }
+
+  /**
+   * Phase 3 : duel 1v1 Swiss, round-robin duel or bracket match. `draw`: "can't decide" (Swiss only),
+   * `strength`: how clear the preference was (ignored for a draw).
+   */
+  async function pickDuel (winner: string, loser: string, shownCards: Record<string, number | null> = {}, draw = false, strength?: VoteStrength) {
+    const s = state.value
+    if (!s?.currentMatch || (draw && s.phase !== 'phase3')) return
     getOrCreateUserId()
-    saveVote(winner, loser)
-    state.value = applyEloResult(state.value, winner, loser)
-    persistState(state.value)
-    if (isPhase3Done(state.value)) {
-      state.value = { ...state.value, phase: 'finished', currentMatch: null }
-      persistState(state.value)
+    if (draw) strength = undefined
+    saveVote(winner, loser, { ...(draw ? { draw } : {}), runId: s.runId, ...(strength ? { strength } : {}), ...voteContext(s, winner, loser) })
+    const phase = s.phase === 'bracket' || s.phase === 'roundRobin' ? s.phase : 'phase3'
+    dispatch({ type: 'pick', phase, match: s.currentMatch, winner, losers: [loser], ...(draw ? { draw } : {}), ...(strength ? { strength } : {}), shownCards })
+    persistState(state.value!)
+    if (isPhase3Done(state.value!) || isRoundRobinDone(state.value!) || isBracketDone(state.value!)) {
+      dispatch({ type: 'finish' })
+      persistState(state.value!)
       return
     }
     const showLoaderAfter = setTimeout(() => { transitioning.value = true }, 120)
@@ -205,28 +375,52 @@ export function useTournamentState () {
     }
   }
 
-  function undo () {
-    if (!state.value) return
-    const reverted = undoLastResult(state.value)
-    if (reverted) {
-      state.value = reverted
+  async function undo () {
+    if (!state.value?.history.length) return
+    dispatch({ type: 'undo' })
+    // Representatives may have been reset by a phase transition: reload the restored match
+    const restored = state.value.currentMatch
+    if (restored?.length) await loadRepresentatives(restored)
+    if (!state.value.currentMatch?.length) await setNextMatch()
+    persistState(state.value)
+  }
+
+  /** Replays the last undone choice (votes were already saved when it was first made). */
+  async function redo () {
+    if (!state.value?.redoStack.length) return
+    dispatch({ type: 'redo' })
+    persistState(state.value)
+    if (isPhase3Done(state.value) || isRoundRobinDone(state.value) || isBracketDone(state.value)) {
+      dispatch({ type: 'finish' })
       persistState(state.value)
+      return
+    }
+    const showLoaderAfter = setTimeout(() => { transitioning.value = true }, 120)
+    try {
+      await setNextMatch()
+      prefetchNextGroup()
+    } finally {
+      clearTimeout(showLoaderAfter)
+      transitioning.value = false
     }
   }
 
   function cycleArchetypeImage (archetypeName: string) {
     if (!state.value) return
-    state.value = cycleRepresentative(state.value, archetypeName)
+    dispatch({ type: 'cycle', name: archetypeName })
     persistState(state.value)
   }
 
   function finish () {
     if (!state.value) return
-    state.value = {
-      ...state.value,
-      phase: 'finished',
-      currentMatch: null
-    }
+    dispatch({ type: 'finish' })
+    persistState(state.value)
+  }
+
+  /** Keeps playing after a convergence offer (offered again after the next round if still stable). */
+  function dismissConvergence (rounds: number) {
+    if (!state.value) return
+    dispatch({ type: 'dismissConvergence', rounds })
     persistState(state.value)
   }
 
@@ -234,9 +428,47 @@ export function useTournamentState () {
     if (state.value) downloadTop10Csv(state.value)
   }
 
+  /** Full ranking of the run (every archetype, with metadata and head-to-head). */
+  function downloadRanking (format: 'csv' | 'json') {
+    if (!state.value) return
+    if (format === 'csv') downloadRankingCsv(state.value)
+    else downloadRankingJson(state.value)
+  }
+
+  /** Downloads the run (full state + its votes) as a versioned file. */
+  function exportRunFile () {
+    const s = state.value
+    if (!s) return
+    // Only this run's votes: the others stay in this browser's all-time log
+    downloadStateFile(s, votesOfRun(s, loadPersonalRanking()?.votes ?? []))
+  }
+
+  /**
+   * Restores a run from a tournament file and resumes at its current match.
+   * Returns an error message when the file is rejected (the current run is kept).
+   */
+  async function importRunFile (text: string): Promise<string | null> {
+    const parsed = parseStateFile(text)
+    if (!parsed.ok) return parsed.error
+    // Files from older versions carry the whole vote log: only the run's own votes are taken
+    importVotes(votesOfRun(parsed.state, parsed.votes))
+    error.value = null
+    state.value = parsed.state
+    persistState(parsed.state)
+    if (parsed.state.phase !== 'finished' && !parsed.state.currentMatch?.length) {
+      loading.value = true
+      try {
+        await setNextMatch()
+      } finally {
+        loading.value = false
+      }
+    }
+    return null
+  }
+
   const START_TIMEOUT_MS = 90_000
 
-  async function startTournament () {
+  async function startTournament (config?: TournamentConfig, seed?: number, filter?: PoolFilter, seeding?: RatingSeedRequest) {
     loading.value = true
     error.value = null
     const timeoutPromise = new Promise<never>((_, reject) => {
@@ -246,7 +478,7 @@ export function useTournamentState () {
       )
     })
     try {
-      await Promise.race([loadFromApi(), timeoutPromise])
+      await Promise.race([loadFromApi(config, seed, filter, seeding), timeoutPromise])
     } catch (e) {
       error.value = (e as Error)?.message ?? 'An error occurred. Please try again.'
     } finally {
@@ -254,11 +486,21 @@ export function useTournamentState () {
     }
   }
 
+  /** Starts a new run with the same format, archetypes and rating source as the current one. */
   function restart () {
+    const config = state.value?.config
+    const pool = state.value?.phasePools?.phase1 ?? state.value?.phasePools?.roundRobin
+    const ratingSeed = state.value?.ratingSeed
     clearPersisted()
     state.value = null
     error.value = null
-    startTournament()
+    startTournament(
+      config,
+      undefined,
+      pool ? { ...emptyPoolFilter(), picked: pool } : undefined,
+      // Phase 1 is already shortened in the run's format
+      ratingSeed ? { source: ratingSeed.source, decay: ratingSeed.decay, phase1: 'full' } : undefined
+    )
   }
 
   /** Resets selection: clears the tournament and shows the start screen. */
@@ -273,16 +515,26 @@ export function useTournamentState () {
     loading,
     transitioning,
     error,
+    saveError,
     top10,
     canUndo,
+    canRedo,
     init,
+    catalog,
+    loadCatalog,
     startTournament,
     pickGroup,
     pickDuel,
+    skipGroup,
     finish,
+    dismissConvergence,
     undo,
+    redo,
     cycleArchetypeImage,
     downloadCsv,
+    downloadRanking,
+    exportRunFile,
+    importRunFile,
     restart,
     resetToStart
   }
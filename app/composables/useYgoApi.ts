@@ -137,6 +137,8 @@ export interface IntelligenceResult {
   representativeMap: Record<string, number[]>
   /** Card IDs (members+supports) per entity — for filtering intruders. */
   entityCardMap: Record<string, number[]>
+  /** Attribute, type, Extra Deck, size and age per entity (pool filters). */
+  metaMap: PipelineResult['metaMap']
   dashboard: PipelineResult['dashboard']
 }
 
@@ -186,6 +188,7 @@ export async function fetchAndAnalyzeArchetypes (): Promise<IntelligenceResult>
     partnerMap: result.partnerMap,
     representativeMap: result.representativeMap,
     entityCardMap,
+    metaMap: result.metaMap,
     dashboard: result.dashboard,
   }
 }
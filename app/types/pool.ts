@@ -0,0 +1,49 @@
+import type { ExtraPolicy } from '~/types/ranking'
+
+/** What the pool filters know about an archetype (computed by the pipeline from all its cards). */
+export interface ArchetypeMeta {
+  /** Most common attribute among its monsters */
+  dominantAttribute: string | null
+  /** Most common monster type among its monsters */
+  dominantRace: string | null
+  extraPolicy: ExtraPolicy
+  /** Monster cards of the archetype (members and supports) */
+  monsterCount: number
+  /** Year of its first card release (null when no set date is known) */
+  firstYear: number | null
+}
+
+/** Every archetype the app can rank, with what the pool filters need. */
+export interface ArchetypeCatalog {
+  names: string[]
+  meta: Record<string, ArchetypeMeta>
+}
+
+/** Which archetypes enter a run. Empty lists and null bounds do not filter. */
+export interface PoolFilter {
+  /** Hand-picked pool: exactly these archetypes, the other fields are ignored (null = use the filters) */
+  picked: string[] | null
+  /** Dominant attributes kept */
+  attributes: string[]
+  /** Dominant monster types kept */
+  races: string[]
+  /** Extra Deck policies kept (e.g. only Xyz themes) */
+  extraPolicies: ExtraPolicy[]
+  /** Fewest monster cards */
+  minMonsters: number
+  /** First release year range, inclusive */
+  fromYear: number | null
+  toYear: number | null
+  /** Always in the pool, whatever the filters */
+  include: string[]
+  /** Never in the pool */
+  exclude: string[]
+}
+
+/** A named filter saved on this device. */
+export interface PoolPreset {
+  id: string
+  name: string
+  filter: PoolFilter
+  savedAt: string
+}
@@ -6,17 +6,36 @@
 /** Extra Deck policy of the archetype (for matchmaking and display tag). */
 export type ExtraPolicy = 'none' | 'fusion' | 'synchro' | 'xyz' | 'link' | 'mixed'
 
-/** A raw vote: A preferred over B (visually). */
+/** How clearly the winner was preferred: a near coin flip, a plain choice, or an obvious favorite. */
+export type VoteStrength = 'slight' | 'clear' | 'strong'
+
+/** A raw vote: A preferred over B (visually), or A and B judged equal. */
 export interface Vote {
   winnerId: string
   loserId: string
   timestamp: string
+  /** "Can't decide": neither side is preferred */
+  draw?: boolean
+  /** Run the vote was cast in (absent on votes saved before votes were tagged) */
+  runId?: string
+  /** Strength of the preference (absent = clear) */
+  strength?: VoteStrength
+  /** Screen slot of the winner (left to right, then row by row) among `cardsShown` cards */
+  winnerSlot?: number
+  /** Screen slot of the loser */
+  loserSlot?: number
+  /** Cards on screen when the vote was cast */
+  cardsShown?: number
+  /** Cast with the archetype names hidden (blind mode) */
+  blind?: boolean
 }
 
 /** Personal ranking state (local storage). */
 export interface PersonalRankingState {
   userId: string
   votes: Vote[]
+  /** Runs left out of the all-time ranking ('' = untagged votes) */
+  excludedRuns?: string[]
 }
 
 /** Aesthetic profile of an archetype (no ATK/DEF, date, popularity, meta). */
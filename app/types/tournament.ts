@@ -4,6 +4,8 @@ export type RepresentativeCategory = 'extra' | 'main' | 'spell' | 'trap'
 /** A representative card — artwork display only (image_url_cropped). */
 export interface RepresentativeCard {
   id: number
+  /** Card name (missing in representatives cached by older versions). */
+  name?: string
   /** Cropped image URL (artwork only, no frame or stats). */
   imageUrl: string
   /** Category: main / extra for the 5+5 grid. */
@@ -12,14 +14,41 @@ export interface RepresentativeCard {
   displayType?: string
 }
 
-import type { ExtraPolicy, ArchetypeProfile } from '~/types/ranking'
-export type { ExtraPolicy, ArchetypeProfile } from '~/types/ranking'
+import type { ExtraPolicy, ArchetypeProfile, VoteStrength } from '~/types/ranking'
+export type { ExtraPolicy, ArchetypeProfile, VoteStrength } from '~/types/ranking'
+
+/** Rating model used by a run. */
+export type RatingModelId = 'elo' | 'glicko2'
+
+/** Swiss pairing: classic score brackets, or the most informative pair for the top of the table. */
+export type SwissPairingId = 'classic' | 'informative'
+
+/** Groups (phases 1-2): pick only the winner, or order every card of the group. */
+export type GroupOrderingId = 'winner' | 'full'
+
+/** Blind mode: names shown, revealed after each pick, or hidden until the results. */
+export type BlindModeId = 'off' | 'reveal' | 'results'
+
+/** Rating of an archetype: Elo-scale value, plus uncertainty with Glicko-2. */
+export interface Rating {
+  elo: number
+  /** Rating deviation (Glicko-2): ~350 for a newcomer, shrinks with consistent results */
+  rd?: number
+  /** Rating volatility (Glicko-2) */
+  volatility?: number
+}
 
 /** Archetype data in tournament state (aesthetic preference). */
 export interface ArchetypeState {
   elo: number
+  /** Rating deviation (Glicko-2 only) */
+  rd?: number
+  /** Rating volatility (Glicko-2 only) */
+  volatility?: number
   wins: number
   losses: number
+  /** Phase 3 duels called even ("can't decide") */
+  draws?: number
   /** 5 Main + 5 Extra (artworks only), stable order. */
   representativeCards?: RepresentativeCard[]
   /** Index of the card currently displayed (cycle when not in match). */
@@ -35,13 +64,129 @@ export interface ArchetypeState {
   dominantRace?: string
 }
 
-/** Phase du tournoi : Sieve + Swiss */
-export type TournamentPhase = 'phase1' | 'phase2' | 'phase3' | 'finished'
+/** Phase du tournoi : Sieve + Swiss (or elimination bracket as final phase), or a round robin of the whole pool */
+export type TournamentPhase = 'phase1' | 'phase2' | 'phase3' | 'bracket' | 'roundRobin' | 'finished'
+
+/** Phases that narrow the pool (each keeps the archetypes it started with). */
+export type PoolPhase = Exclude<TournamentPhase, 'finished'>
+
+/** Kind of final phase played after the sieve ('round-robin': no sieve, every pair of the pool meets once). */
+export type FinalPhaseKind = 'swiss' | 'single-elimination' | 'double-elimination' | 'round-robin'
+
+/** Target slot of a bracket match (where its winner or loser goes). */
+export interface BracketSlot {
+  id: string
+  side: 'a' | 'b'
+}
+
+/** A match of the elimination bracket. */
+export interface BracketMatch {
+  /** Stable id: `W<round>-<index>`, `L<round>-<index>`, `GF` or `GF2` (grand final reset) */
+  id: string
+  section: 'winners' | 'losers' | 'final'
+  /** 1-based round within the section */
+  round: number
+  index: number
+  a: string | null
+  b: string | null
+  winner: string | null
+  winnerTo: BracketSlot | null
+  /** Double elimination: where the loser drops in the losers bracket */
+  loserTo: BracketSlot | null
+  /** Grand final reset not needed (winners-bracket champion won the grand final) */
+  void?: boolean
+}
+
+/** Single- or double-elimination bracket between the top seeds. */
+export interface BracketState {
+  kind: 'single' | 'double'
+  /** Participants in seed order (index 0 = seed 1) */
+  seeds: string[]
+  /** Winners bracket first, then losers bracket, then grand final(s) */
+  matches: BracketMatch[]
+  champion: string | null
+}
+
+/** Named tournament formats (per-run phase sizes and K-factors). */
+export type TournamentFormatId = 'quick' | 'standard' | 'thorough' | 'round-robin'
+
+/** Phase structure of a run. Stored in the state so each run keeps its own format. */
+export interface TournamentConfig {
+  format: TournamentFormatId | 'custom'
+  /** Phase 1: number of coverage rounds (groups of 4, full pool) */
+  coverageRoundCount: number
+  /** Phase 2: number of refinement rounds (groups of 4) */
+  refinementRoundCount: number
+  /** Phase 2: fraction of pool retained */
+  refinementPoolFraction: number
+  /** Phase 3: Swiss pool size (finalists) */
+  swissPoolSize: number
+  /** Phase 3: number of Swiss rounds */
+  swissRoundCount: number
+  /** K-factor for phase 1 groups */
+  kGroupDampened: number
+  /** K-factor for phase 2 groups */
+  kGroupFull: number
+  /** K-factor for phase 3 1v1 duels (Swiss or bracket) */
+  kSwiss: number
+  /** Final phase: Swiss rounds, an elimination bracket, or a round robin of the whole pool (no group phases) */
+  finalPhase: FinalPhaseKind
+  /** Bracket: number of seeded finalists (rounded down to a power of 2) */
+  bracketSize: number
+  /** Rating model: plain Elo or Glicko-2 (rating + uncertainty) */
+  ratingModel: RatingModelId
+  /** Phase 3: how the pairs of a Swiss round are chosen */
+  swissPairing: SwissPairingId
+  /** Phase 3: finish on its own once the ranking has converged (otherwise offer to finish) */
+  autoFinishOnConvergence: boolean
+  /** Phases 1-2: winner only, or full order of the group */
+  groupOrdering: GroupOrderingId
+  /** Wildcard spots played for in a repechage round before each cut (0 = no repechage) */
+  repechageSlots: number
+  /** Offset the screen-position bias in the ratings once it is significant */
+  positionCorrection: boolean
+  /** Archetype names hidden during matches (artwork only) */
+  blindMode: BlindModeId
+}
+
+/** Repechage round before a cut: archetypes just below the line play groups for the last spots. */
+export interface RepechageState {
+  /** Archetypes through the cut without playing the repechage */
+  qualified: string[]
+  /** Archetypes playing for the wildcard spots, best rated first */
+  candidates: string[]
+  /** Wildcard spots (one per group winner) */
+  slots: number
+  /** Length of the history when the repechage began (its groups come after) */
+  historyStart: number
+}
+
+/** Where the starting ratings of a run came from. */
+export type RatingSeedSource = { kind: 'run'; runId: string } | { kind: 'votes' }
+
+/** Starting ratings carried over from earlier preferences (see priorRatings.ts). */
+export interface RatingSeed {
+  source: RatingSeedSource
+  /** Share of a preference kept per month of age (1 = no decay) */
+  decay: number
+  /** Starting rating per archetype (the others start as newcomers) */
+  ratings: Record<string, Rating>
+}
+
+/** Run a copy was made from, and when: the votes cast in it until then are the copy's too. */
+export interface RunOrigin {
+  runId: string
+  at: string
+}
 
 export interface TournamentState {
+  /** Layout version of the persisted state (see stateMigrations) */
+  schemaVersion: number
   runId: string
   createdAt: string
   seed: number
+  /** Format of this run */
+  config: TournamentConfig
   phase: TournamentPhase
   archetypes: Record<string, ArchetypeState>
   /** All archetype names in the tournament */
@@ -54,6 +199,10 @@ export interface TournamentState {
   round: number
   /** Pool size at start */
   initialPoolSize?: number
+  /** Ratings the run started from (absent = everyone started as a newcomer) */
+  ratingSeed?: RatingSeed
+  /** Runs this one was copied from, the earliest first (absent = not a copy) */
+  copiedFrom?: RunOrigin[]
 
   /** Sub-round in current phase (0-indexed) */
   phaseRound: number
@@ -61,26 +210,102 @@ export interface TournamentState {
   groupsCompleted: number
   /** Total number of groups in the current round */
   groupsTotal: number
-  /** Pre-computed groups for the current round (phase 1/2) */
+  /** Pre-computed groups for the current round (phase 1/2), or the pairs of the current Swiss / round-robin round */
   currentRoundGroups: string[][] | null
   /** Archetype pool for the current phase (subset of remainingNames) */
   phasePool: string[]
+  /** Elimination bracket (final phase 'bracket') */
+  bracket?: BracketState | null
+  /** Pool each phase started with (where archetypes were cut) */
+  phasePools?: Partial<Record<PoolPhase, string[]>>
+  /** Completed Swiss rounds when the user declined to finish on convergence */
+  convergenceDismissedAt?: number
+  /** Repechage round being played before the cut (null = none) */
+  repechage?: RepechageState | null
+  /** Phase 3: archetype sitting out each Swiss round so far (null = even pool, nobody sat out) */
+  swissByes?: (string | null)[]
 
-  /** Last choice (for undo) */
-  lastMatchResult?: {
-    phase: 'phase1' | 'phase2' | 'phase3'
-    match: string[]
-    winner: string
-    losers?: string[]
-    loser?: string
-    /** Elo deltas applied (for exact undo) */
-    eloDelta?: { name: string; delta: number }[]
-    /** Snapshot for restore on phase transition undo */
-    prevGroups?: string[][] | null
-    prevPhasePool?: string[]
-    prevGroupsTotal?: number
-    prevPhaseRound?: number
-  }
+  /** Resolved choices, oldest first (for multi-level undo) */
+  history: MatchResult[]
+  /** Undone choices, most recently undone last (for redo) */
+  redoStack: MatchResult[]
+  /** Everything that happened in the run; the state is their fold (absent for runs started before the log) */
+  events?: TournamentEvent[]
+}
+
+/** Representative cards loaded for an archetype (null = no usable images: the archetype is dropped). */
+export type RepresentativeLoad = {
+  representativeCards: RepresentativeCard[]
+  representativeIndex: number
+  extraPolicy?: ExtraPolicy
+  profile?: ArchetypeProfile
+} | null
+
+/** A step of a run, without its timestamp. */
+export type TournamentEventData =
+  /** New run over `names`, from seeded ratings if any (seed and format are passed to replay) */
+  | { type: 'start'; runId: string; createdAt: string; names: string[]; ratingSeed?: RatingSeed; copiedFrom?: RunOrigin[] }
+  /** Current round finished: next round or next phase */
+  | { type: 'advance' }
+  /** Current group skipped (fewer than 2 playable archetypes) */
+  | { type: 'skip' }
+  /** Match put on screen */
+  | { type: 'show'; match: string[] }
+  /** Representative cards fetched for an archetype: index of the card chosen (null = no images, dropped). The cards are not logged */
+  | { type: 'load'; name: string; card: number | null }
+  /** Choice of the user (`ordered`: losers in finishing order, `draw`: duel called even, `strength`: how clear the preference was), with the card shown for each archetype (card id, null = card back) */
+  | { type: 'pick'; phase: MatchResult['phase']; match: string[]; winner: string; losers: string[]; ordered?: boolean; draw?: boolean; strength?: VoteStrength; shownCards: Record<string, number | null> }
+  /** Current group skipped by the user (undoable, unlike `skip`) */
+  | { type: 'skipGroup'; match: string[] }
+  /** Next representative image of an archetype */
+  | { type: 'cycle'; name: string }
+  | { type: 'finish' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  /** Convergence offer declined after `rounds` Swiss rounds */
+  | { type: 'dismissConvergence'; rounds: number }
+
+/** A recorded step of a run (see tournamentEvents.ts). */
+export type TournamentEvent = TournamentEventData & { at: string }
+
+/** Structural fields restored when undoing a choice that ended a round or a phase. */
+export interface PhaseSnapshot {
+  phase: TournamentPhase
+  phaseRound: number
+  groupsTotal: number
+  currentRoundGroups: string[][] | null
+  phasePool: string[]
+  matchesPlayed: string[]
+  bracket?: BracketState | null
+  phasePools?: Partial<Record<PoolPhase, string[]>>
+  repechage?: RepechageState | null
+  swissByes?: (string | null)[]
+}
+
+/** A resolved choice (undo/redo history entry). */
+export interface MatchResult {
+  phase: 'phase1' | 'phase2' | 'phase3' | 'bracket' | 'roundRobin'
+  match: string[]
+  /** Empty for a skipped group */
+  winner: string
+  losers?: string[]
+  loser?: string
+  /** Group fully ordered: `losers` are in finishing order and every pair was rated */
+  ordered?: boolean
+  /** Phase 3 duel called even: `winner` and `loser` are just the two sides */
+  draw?: boolean
+  /** Strength of the preference (absent = clear) */
+  strength?: VoteStrength
+  /** Group skipped: its archetypes were moved to later groups of the round (see `snapshot`) */
+  skipped?: boolean
+  /** Elo deltas applied, with the rating before the choice (for exact undo) */
+  eloDelta?: { name: string; delta: number; prev?: Rating }[]
+  /** Bracket match resolved by this choice */
+  bracketMatchId?: string
+  /** groupsCompleted before the choice (skipped groups make a plain decrement unreliable) */
+  prevGroupsCompleted?: number
+  /** Snapshot for restore on phase/round transition undo */
+  snapshot?: PhaseSnapshot
 }
 
 /** Elo initial */
@@ -103,3 +328,100 @@ export const K_GROUP_DAMPENED = 16
 export const K_GROUP_FULL = 32
 /** K-factor for phase 3 1v1 duels */
 export const K_SWISS = 32
+/** Weight of a choice by preference strength (scales K, or the likelihood weight with Glicko-2) */
+export const VOTE_STRENGTH_WEIGHTS: Record<VoteStrength, number> = { slight: 0.5, clear: 1, strong: 1.5 }
+/** Bracket: default number of seeded finalists */
+export const BRACKET_SIZE = 16
+
+/** Convergence: completed Swiss rounds needed before the ranking can be called stable */
+export const CONVERGENCE_MIN_ROUNDS = 2
+/** Convergence: share of Top-10 pairwise orders that must survive a round */
+export const CONVERGENCE_MIN_STABILITY = 0.9
+/** Convergence: max mean rating movement per round, as a fraction of the Swiss K-factor */
+export const CONVERGENCE_MAX_MOVEMENT = 0.5
+
+/** Results audit: most finalists shown in the head-to-head matrix */
+export const AUDIT_MAX_FINALISTS = 24
+/** Results audit: share of the net rating gain above which a single group win is flagged */
+export const LUCKY_WIN_SHARE = 0.5
+
+/** Round robin: largest pool (every pair meets once: 120 duels for 16 archetypes) */
+export const ROUND_ROBIN_MAX_POOL = 16
+
+/** Repechage: wildcard spots when it is turned on (groups of 4 per spot) */
+export const REPECHAGE_SLOTS = 2
+
+/** Default format (the historical fixed phase structure). */
+export const DEFAULT_TOURNAMENT_CONFIG: TournamentConfig = {
+  format: 'standard',
+  coverageRoundCount: COVERAGE_ROUND_COUNT,
+  refinementRoundCount: REFINEMENT_ROUND_COUNT,
+  refinementPoolFraction: REFINEMENT_POOL_FRACTION,
+  swissPoolSize: SWISS_POOL_SIZE,
+  swissRoundCount: SWISS_ROUND_COUNT,
+  kGroupDampened: K_GROUP_DAMPENED,
+  kGroupFull: K_GROUP_FULL,
+  kSwiss: K_SWISS,
+  finalPhase: 'swiss',
+  bracketSize: BRACKET_SIZE,
+  ratingModel: 'elo',
+  swissPairing: 'classic',
+  autoFinishOnConvergence: false,
+  groupOrdering: 'winner',
+  repechageSlots: 0,
+  positionCorrection: true,
+  blindMode: 'off'
+}
+
+/** Built-in formats: a short run (~10 min), the default one and a long, thorough one. */
+export const TOURNAMENT_FORMATS: Record<TournamentFormatId, TournamentConfig> = {
+  quick: {
+    format: 'quick',
+    coverageRoundCount: 1,
+    refinementRoundCount: 1,
+    refinementPoolFraction: 0.25,
+    swissPoolSize: 12,
+    swissRoundCount: 3,
+    kGroupDampened: 24,
+    kGroupFull: 40,
+    kSwiss: 40,
+    finalPhase: 'swiss',
+    bracketSize: 8,
+    ratingModel: 'elo',
+    swissPairing: 'informative',
+    autoFinishOnConvergence: true,
+    groupOrdering: 'winner',
+    repechageSlots: 0,
+    positionCorrection: true,
+    blindMode: 'off'
+  },
+  standard: DEFAULT_TOURNAMENT_CONFIG,
+  thorough: {
+    format: 'thorough',
+    coverageRoundCount: 3,
+    refinementRoundCount: 3,
+    refinementPoolFraction: 0.5,
+    swissPoolSize: 32,
+    swissRoundCount: 5,
+    kGroupDampened: K_GROUP_DAMPENED,
+    kGroupFull: K_GROUP_FULL,
+    kSwiss: 24,
+    finalPhase: 'swiss',
+    bracketSize: BRACKET_SIZE,
+    ratingModel: 'glicko2',
+    swissPairing: 'informative',
+    autoFinishOnConvergence: false,
+    groupOrdering: 'winner',
+    repechageSlots: 0,
+    positionCorrection: true,
+    blindMode: 'off'
+  },
+  'round-robin': {
+    ...DEFAULT_TOURNAMENT_CONFIG,
+    format: 'round-robin',
+    coverageRoundCount: 0,
+    refinementRoundCount: 0,
+    finalPhase: 'round-robin',
+    ratingModel: 'glicko2'
+  }
+}
@@ -0,0 +1,150 @@
+import type { Rating } from '~/types/tournament'
+import { K_GROUP_FULL, VOTE_STRENGTH_WEIGHTS } from '~/types/tournament'
+import type { Vote } from '~/types/ranking'
+import type { RatedGame } from '~/utils/ratingModel'
+import { glicko2Model, glickoIdlePeriod } from '~/utils/ratingModel'
+
+/** An archetype in the all-time ranking. */
+export interface AllTimeEntry {
+  name: string
+  rank: number
+  elo: number
+  /** Glicko-2 rating deviation: the lower, the more settled the rating */
+  rd: number
+  /** Votes the archetype took part in */
+  comparisons: number
+  wins: number
+  losses: number
+  draws: number
+  /** Rank at the end of each period (null before its first vote) */
+  rankHistory: (number | null)[]
+}
+
+export interface AllTimeRanking {
+  entries: AllTimeEntry[]
+  /** Rating periods, oldest first (YYYY-MM) */
+  periods: string[]
+  /** Votes counted (excluded runs left out) */
+  voteCount: number
+}
+
+/** Votes of one run ('' = votes saved before votes were tagged with their run). */
+export interface VoteSource {
+  runId: string
+  votes: number
+  firstAt: string
+  lastAt: string
+}
+
+/** Rating period of a vote: its calendar month. */
+function periodOf (vote: Vote): string {
+  return vote.timestamp.slice(0, 7)
+}
+
+/** Calendar months from period `from` to period `to` (YYYY-MM). */
+function monthsBetween (from: string, to: string): number {
+  const month = (period: string) => Number(period.slice(0, 4)) * 12 + Number(period.slice(5, 7))
+  return month(to) - month(from)
+}
+
+/** Runs found in the vote log, most recent first. */
+export function listVoteSources (votes: Vote[]): VoteSource[] {
+  const sources = new Map<string, VoteSource>()
+  for (const vote of votes) {
+    const runId = vote.runId ?? ''
+    const source = sources.get(runId)
+    if (!source) {
+      sources.set(runId, { runId, votes: 1, firstAt: vote.timestamp, lastAt: vote.timestamp })
+      continue
+    }
+    source.votes++
+    if (vote.timestamp < source.firstAt) source.firstAt = vote.timestamp
+    if (vote.timestamp > source.lastAt) source.lastAt = vote.timestamp
+  }
+  return [...sources.values()].sort((a, b) => b.lastAt.localeCompare(a.lastAt))
+}
+
+/**
+ * Glicko-2 fit of the whole vote log, one rating period per calendar month, so an archetype
+ * seen in few or contradictory votes keeps a wide deviation. Votes of `excludedRuns` are ignored.
+ */
+export function buildAllTimeRanking (votes: Vote[], excludedRuns: Iterable<string> = []): AllTimeRanking {
+  const excluded = new Set(excludedRuns)
+  const kept = votes
+    .filter(v => v.winnerId !== v.loserId && !excluded.has(v.runId ?? ''))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+  const ratings = new Map<string, Rating>()
+  const counts = new Map<string, { wins: number; losses: number; draws: number }>()
+  const history = new Map<string, (number | null)[]>()
+  const periods: string[] = []
+
+  const count = (name: string) => {
+    let c = counts.get(name)
+    if (!c) {
+      c = { wins: 0, losses: 0, draws: 0 }
+      counts.set(name, c)
+      ratings.set(name, glicko2Model.initial())
+      history.set(name, periods.map(() => null))
+    }
+    return c
+  }
+
+  const ranked = () => [...ratings.entries()].sort((a, b) => b[1].elo - a[1].elo || a[0].localeCompare(b[0]))
+
+  for (let start = 0; start < kept.length;) {
+    const period = periodOf(kept[start]!)
+    let end = start
+    while (end < kept.length && periodOf(kept[end]!) === period) end++
+
+    // Months without any vote are rating periods too: every rated archetype sat them out
+    const idleMonths = periods.length ? monthsBetween(periods.at(-1)!, period) - 1 : 0
+    for (let m = 0; m < idleMonths; m++) {
+      for (const [name, rating] of ratings) ratings.set(name, glickoIdlePeriod(rating))
+    }
+
+    const batch = kept.slice(start, end)
+    for (const vote of batch) {
+      const winner = count(vote.winnerId)
+      const loser = count(vote.loserId)
+      if (vote.draw) {
+        winner.draws++
+        loser.draws++
+      } else {
+        winner.wins++
+        loser.losses++
+      }
+    }
+    const names = [...new Set(batch.flatMap(v => [v.winnerId, v.loserId]))]
+    const index = new Map(names.map((name, i) => [name, i]))
+    const games: RatedGame[] = batch.map(v => ({
+      a: index.get(v.winnerId)!,
+      b: index.get(v.loserId)!,
+      scoreA: v.draw ? 0.5 : 1,
+      weight: VOTE_STRENGTH_WEIGHTS[v.strength ?? 'clear']
+    }))
+    const next = glicko2Model.update(names.map(name => ratings.get(name)!), games, K_GROUP_FULL)
+    names.forEach((name, i) => ratings.set(name, next[i]!))
+    for (const [name, rating] of ratings) {
+      if (!index.has(name)) ratings.set(name, glickoIdlePeriod(rating))
+    }
+
+    periods.push(period)
+    ranked().forEach(([name], i) => history.get(name)!.push(i + 1))
+    start = end
+  }
+
+  const entries = ranked().map(([name, rating], i): AllTimeEntry => {
+    const c = counts.get(name)!
+    return {
+      name,
+      rank: i + 1,
+      elo: Math.round(rating.elo),
+      rd: Math.round(rating.rd ?? 0),
+      comparisons: c.wins + c.losses + c.draws,
+      ...c,
+      rankHistory: history.get(name)!
+    }
+  })
+  return { entries, periods, voteCount: kept.length }
+}
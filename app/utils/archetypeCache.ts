@@ -2,13 +2,14 @@
  * IndexedDB cache for the list of valid archetypes (with enough representatives).
  * Refreshed once per month to speed up initial load.
  */
+import type { ArchetypeMeta } from '~/types/pool'
 
 const DB_NAME = 'yugidex-archetype-cache'
 const STORE_NAME = 'archetypes'
 const DB_VERSION = 2
 const CACHE_KEY = 'valid-names'
 const MAX_AGE_MS = 60 * 24 * 60 * 60 * 1000 // 60 days (2 months)
-const ALGORITHM_VERSION = 22
+const ALGORITHM_VERSION = 23
 
 function isClient (): boolean {
   return typeof indexedDB !== 'undefined'
@@ -38,6 +39,8 @@ export interface ArchetypeCacheEntry {
   representativeMap?: Record<string, number[]>
   /** Card IDs (members+supports) per entity — for filtering API intruders. */
   entityCardMap?: Record<string, number[]>
+  /** Attribute, type, Extra Deck, size and age per entity (pool filters). */
+  metaMap?: Record<string, ArchetypeMeta>
   fetchedAt: number
   algorithmVersion?: number
   language?: string
@@ -48,6 +51,7 @@ export interface CachedArchetypesResult {
   partnerMap: Record<string, string[]>
   representativeMap: Record<string, number[]>
   entityCardMap: Record<string, number[]>
+  metaMap: Record<string, ArchetypeMeta>
 }
 
 export async function getCachedValidArchetypes (lang?: string): Promise<CachedArchetypesResult | null> {
@@ -82,6 +86,7 @@ export async function getCachedValidArchetypes (lang?: string): Promise<CachedAr
           partnerMap: entry.partnerMap ?? {},
           representativeMap: entry.representativeMap ?? {},
           entityCardMap: entry.entityCardMap ?? {},
+          metaMap: entry.metaMap ?? {},
         })
       }
       req.onerror = () => {
@@ -99,7 +104,8 @@ export async function setCachedValidArchetypes (
   lang?: string,
   partnerMap?: Record<string, string[]>,
   representativeMap?: Record<string, number[]>,
-  entityCardMap?: Record<string, number[]>
+  entityCardMap?: Record<string, number[]>,
+  metaMap?: Record<string, ArchetypeMeta>
 ): Promise<void> {
   if (!isClient() || !validNames.length) return
   try {
@@ -112,6 +118,7 @@ export async function setCachedValidArchetypes (
         partnerMap: partnerMap ?? {},
         representativeMap: representativeMap ?? {},
         entityCardMap: entityCardMap ?? {},
+        metaMap: metaMap ?? {},
         fetchedAt: Date.now(),
         algorithmVersion: ALGORITHM_VERSION,
         language: lang ?? 'en'
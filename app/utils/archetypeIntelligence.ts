@@ -12,6 +12,7 @@
  */
 
 import type { YgoCard } from '~/types/api'
+import type { ArchetypeMeta } from '~/types/pool'
 
 // ═══════════════════════════════════════════════════════════════════════
 // §1  TYPES
@@ -24,6 +25,9 @@ export interface CardData {
   type: string          // "Effect Monster", "Spell Card" …
   frameType: string     // "effect", "fusion", "spell" …
   externalArchetype: string | null
+  race?: string
+  attribute?: string
+  firstYear?: number | null   // earliest set release
 }
 
 export type ArchetypeStatus = 'accepted' | 'rejected' | 'suspect'
@@ -87,6 +91,8 @@ export interface PipelineResult {
   partnerMap: Record<string, string[]>
   /** For the app: entity label → pre-computed representative card IDs. */
   representativeMap: Record<string, number[]>
+  /** For the app: entity label → attribute, type, Extra Deck, size and age (pool filters). */
+  metaMap: Record<string, ArchetypeMeta>
   dashboard: {
     totalCards: number
     totalLabels: number
@@ -883,6 +889,13 @@ function pickRepresentativeCards (
  * An archetype must have enough MONSTER cards to be displayed.
  * Archetypes composed only of spells/traps (no monsters) are rejected.
  */
+function isMonster (c: CardData): boolean {
+  const t = c.type.toLowerCase()
+  if (t.includes('token') || t.includes('skill')) return false
+  if (t.includes('spell') || t.includes('trap')) return false
+  return true
+}
+
 function hasEnoughCards (
   memberIds: number[],
   supportIds: number[],
@@ -892,15 +905,43 @@ function hasEnoughCards (
   const pool = [...new Set([...memberIds, ...supportIds])]
   const monsters = pool.filter(id => {
     const c = allCards.get(id)
-    if (!c) return false
-    const t = c.type.toLowerCase()
-    if (t.includes('token') || t.includes('skill')) return false
-    if (t.includes('spell') || t.includes('trap')) return false
-    return true
+    return !!c && isMonster(c)
   })
   return monsters.length >= config.minCardsForDisplay
 }
 
+/** Most frequent value (ties: alphabetical), null when there is none. */
+function dominant (values: (string | undefined)[]): string | null {
+  const counts = new Map<string, number>()
+  for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1)
+  let best: string | null = null
+  for (const [v, n] of counts) {
+    if (best == null || n > counts.get(best)! || (n === counts.get(best)! && v < best)) best = v
+  }
+  return best
+}
+
+/** What the pool filters need to know about an entity, from all its cards. */
+function buildArchetypeMeta (entity: DisplayEntity, allCards: Map<number, CardData>): ArchetypeMeta {
+  const cards = [...new Set([...entity.memberCardIds, ...entity.supportCardIds])]
+    .map(id => allCards.get(id))
+    .filter((c): c is CardData => !!c)
+  const monsters = cards.filter(isMonster)
+  const extraKinds = new Set<string>()
+  for (const c of monsters) {
+    const f = `${c.type} ${c.frameType}`.toLowerCase()
+    for (const kind of ['fusion', 'synchro', 'xyz', 'link'] as const) if (f.includes(kind)) extraKinds.add(kind)
+  }
+  const years = cards.map(c => c.firstYear).filter((y): y is number => y != null)
+  return {
+    dominantAttribute: dominant(monsters.map(c => c.attribute)),
+    dominantRace: dominant(monsters.map(c => c.race)),
+    extraPolicy: extraKinds.size > 1 ? 'mixed' : ([...extraKinds][0] as ArchetypeMeta['extraPolicy'] | undefined) ?? 'none',
+    monsterCount: monsters.length,
+    firstYear: years.length ? Math.min(...years) : null
+  }
+}
+
 function displayLabel (raw: string): string {
   const s = raw.trim()
   return s ? s.charAt(0).toUpperCase() + s.slice(1) : s
@@ -983,10 +1024,12 @@ export function runPipeline (
   const validNames: string[] = []
   const partnerMap: Record<string, string[]> = {}
   const representativeMap: Record<string, number[]> = {}
+  const metaMap: Record<string, ArchetypeMeta> = {}
 
   for (const entity of entities) {
     validNames.push(entity.labelDisplay)
     representativeMap[entity.labelDisplay] = entity.representativeCardIds
+    metaMap[entity.labelDisplay] = buildArchetypeMeta(entity, allCards)
     if (entity.entityType === 'cluster' && entity.containedArchetypes.length > 1) {
       // Partners = all archetype labels except the entity label itself
       const partners = entity.containedArchetypes
@@ -1005,6 +1048,7 @@ export function runPipeline (
     validNames,
     partnerMap,
     representativeMap,
+    metaMap,
     dashboard: {
       totalCards: cards.length,
       totalLabels: index.labelToCards.size,
@@ -1023,6 +1067,14 @@ export function runPipeline (
 // §10  HELPERS
 // ═══════════════════════════════════════════════════════════════════════
 
+/** Year of the earliest set the card was printed in (null without dates). */
+function firstReleaseYear (card: YgoCard): number | null {
+  const years = (card.card_sets ?? [])
+    .map(s => s.set_release_date ? new Date(s.set_release_date).getFullYear() : NaN)
+    .filter(y => !Number.isNaN(y))
+  return years.length ? Math.min(...years) : null
+}
+
 export function ygoCardToCardData (card: YgoCard): CardData {
   return {
     id: card.id,
@@ -1031,5 +1083,8 @@ export function ygoCardToCardData (card: YgoCard): CardData {
     type: card.type ?? '',
     frameType: card.frameType ?? '',
     externalArchetype: card.archetype?.trim() ?? null,
+    race: card.race,
+    attribute: card.attribute,
+    firstYear: firstReleaseYear(card),
   }
 }
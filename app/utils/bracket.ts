@@ -0,0 +1,209 @@
+import type { BracketState, BracketMatch, BracketSlot } from '~/types/tournament'
+
+/**
+ * Standard seeding order for a bracket of `size` (power of 2):
+ * 1 plays `size`, 2 plays `size - 1`… and the top seeds meet as late as possible.
+ */
+export function bracketSeedOrder (size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const n = order.length * 2
+    order = order.flatMap(s => [s, n + 1 - s])
+  }
+  return order
+}
+
+/** Largest power of 2 ≤ min(requested, available), at least 2. */
+export function effectiveBracketSize (requested: number, available: number): number {
+  const max = Math.max(2, Math.min(requested, available))
+  let size = 2
+  while (size * 2 <= max) size *= 2
+  return size
+}
+
+function slot (id: string, side: 'a' | 'b'): BracketSlot {
+  return { id, side }
+}
+
+function emptyMatch (
+  id: string,
+  section: BracketMatch['section'],
+  round: number,
+  index: number
+): BracketMatch {
+  return { id, section, round, index, a: null, b: null, winner: null, winnerTo: null, loserTo: null }
+}
+
+/**
+ * Builds the bracket for `seeds` (best first, length = power of 2).
+ * Double elimination needs at least 4 participants; smaller brackets fall back to single.
+ *
+ * Losers bracket layout (k = log2(size)): round 1 pairs the losers of winners round 1,
+ * then even rounds bring in the losers of the next winners round (in reverse order to
+ * avoid immediate rematches) and odd rounds halve the field. The last losers round
+ * faces the loser of the winners final; its winner meets the winners champion in the
+ * grand final, with a reset match (`GF2`) if the losers-bracket champion wins it.
+ */
+export function buildBracket (seeds: string[], kind: 'single' | 'double'): BracketState {
+  const size = seeds.length
+  const k = Math.round(Math.log2(size))
+  const double = kind === 'double' && size >= 4
+  const matches: BracketMatch[] = []
+
+  // ── Winners bracket ──
+  const order = bracketSeedOrder(size)
+  for (let r = 1; r <= k; r++) {
+    const count = size >> r
+    for (let i = 0; i < count; i++) {
+      const m = emptyMatch(`W${r}-${i}`, 'winners', r, i)
+      if (r === 1) {
+        m.a = seeds[order[2 * i]! - 1] ?? null
+        m.b = seeds[order[2 * i + 1]! - 1] ?? null
+      }
+      if (r < k) m.winnerTo = slot(`W${r + 1}-${i >> 1}`, i % 2 === 0 ? 'a' : 'b')
+      else if (double) m.winnerTo = slot('GF', 'a')
+      matches.push(m)
+    }
+  }
+
+  if (double) {
+    const losersRounds = 2 * (k - 1)
+    // Losers of winners round 1 → losers round 1
+    for (const m of matches.filter(w => w.round === 1)) {
+      m.loserTo = slot(`L1-${m.index >> 1}`, m.index % 2 === 0 ? 'a' : 'b')
+    }
+    for (let r = 1; r <= losersRounds; r++) {
+      const count = size >> (Math.floor((r + 1) / 2) + 1)
+      for (let i = 0; i < count; i++) {
+        const m = emptyMatch(`L${r}-${i}`, 'losers', r, i)
+        if (r === losersRounds) m.winnerTo = slot('GF', 'b')
+        else if (r % 2 === 1) m.winnerTo = slot(`L${r + 1}-${i}`, 'a')
+        else m.winnerTo = slot(`L${r + 1}-${i >> 1}`, i % 2 === 0 ? 'a' : 'b')
+        matches.push(m)
+      }
+      if (r % 2 === 0) {
+        // Losers of winners round r/2 + 1 drop in, reversed
+        const w = r / 2 + 1
+        for (const m of matches.filter(x => x.section === 'winners' && x.round === w)) {
+          m.loserTo = slot(`L${r}-${count - 1 - m.index}`, 'b')
+        }
+      }
+    }
+    matches.push(emptyMatch('GF', 'final', 1, 0))
+    matches.push(emptyMatch('GF2', 'final', 2, 0))
+  }
+
+  return { kind: double ? 'double' : 'single', seeds: [...seeds], matches, champion: null }
+}
+
+/** Next playable match (both participants known, not decided), winners bracket first. */
+export function getNextBracketMatch (bracket: BracketState): BracketMatch | null {
+  if (bracket.champion) return null
+  return bracket.matches.find(m => m.a && m.b && !m.winner && !m.void) ?? null
+}
+
+function setSlot (matches: BracketMatch[], target: BracketSlot | null, name: string | null): void {
+  if (!target) return
+  const idx = matches.findIndex(m => m.id === target.id)
+  if (idx < 0) return
+  matches[idx] = { ...matches[idx]!, [target.side]: name }
+}
+
+function updateMatch (matches: BracketMatch[], id: string, patch: Partial<BracketMatch>): void {
+  const idx = matches.findIndex(m => m.id === id)
+  if (idx >= 0) matches[idx] = { ...matches[idx]!, ...patch }
+}
+
+/** Records the winner of a match and moves both participants forward. */
+export function applyBracketResult (
+  bracket: BracketState,
+  matchId: string,
+  winner: string
+): BracketState {
+  const match = bracket.matches.find(m => m.id === matchId)
+  if (!match || match.winner || (winner !== match.a && winner !== match.b)) return bracket
+  const loser = winner === match.a ? match.b : match.a
+  const matches = [...bracket.matches]
+  let champion: string | null = null
+
+  updateMatch(matches, matchId, { winner })
+  setSlot(matches, match.winnerTo, winner)
+  setSlot(matches, match.loserTo, loser)
+
+  if (matchId === 'GF') {
+    if (winner === match.b) {
+      // Losers-bracket champion handed the first loss: reset match
+      updateMatch(matches, 'GF2', { a: match.a, b: match.b, void: false })
+    } else {
+      updateMatch(matches, 'GF2', { void: true })
+      champion = winner
+    }
+  } else if (matchId === 'GF2') {
+    champion = winner
+  } else if (!match.winnerTo) {
+    // Single elimination final
+    champion = winner
+  }
+
+  return { ...bracket, matches, champion }
+}
+
+/** Cancels the result of a match (the matches it fed must not have been played). */
+export function undoBracketResult (bracket: BracketState, matchId: string): BracketState {
+  const match = bracket.matches.find(m => m.id === matchId)
+  if (!match?.winner) return bracket
+  const matches = [...bracket.matches]
+  updateMatch(matches, matchId, { winner: null })
+  setSlot(matches, match.winnerTo, null)
+  setSlot(matches, match.loserTo, null)
+  if (matchId === 'GF') updateMatch(matches, 'GF2', { a: null, b: null, void: undefined })
+  return { ...bracket, matches, champion: null }
+}
+
+/** Matches that will actually be played (the grand final reset only once activated). */
+export function countBracketMatches (bracket: BracketState): { played: number; total: number } {
+  const live = bracket.matches.filter(m => !m.void && (m.id !== 'GF2' || (m.a && m.b)))
+  return { played: live.filter(m => m.winner).length, total: live.length }
+}
+
+/**
+ * Final placement of the participants: champion, then by how far each went before
+ * being eliminated (later exit = better), ties broken by seed.
+ */
+export function getBracketStandings (bracket: BracketState): string[] {
+  const exit = new Map<string, number>()
+  for (const m of bracket.matches) {
+    if (!m.winner) continue
+    const loser = m.winner === m.a ? m.b : m.a
+    if (!loser) continue
+    if (bracket.kind === 'single') {
+      exit.set(loser, m.round)
+    } else if (m.section === 'losers') {
+      exit.set(loser, m.round)
+    } else if (m.section === 'final') {
+      // Grand final loser is runner-up (reset match processed after GF overrides)
+      exit.set(loser, 100 + m.round)
+    }
+  }
+  const seedIndex = new Map(bracket.seeds.map((n, i) => [n, i]))
+  return [...bracket.seeds].sort((a, b) => {
+    if (a === bracket.champion) return -1
+    if (b === bracket.champion) return 1
+    const ea = exit.get(a) ?? Infinity
+    const eb = exit.get(b) ?? Infinity
+    if (ea !== eb) return eb - ea
+    return (seedIndex.get(a) ?? 0) - (seedIndex.get(b) ?? 0)
+  })
+}
+
+/** Readable round label, e.g. "Winners R2", "Losers R1", "Grand final". */
+export function bracketRoundLabel (match: Pick<BracketMatch, 'section' | 'round'>, bracket: BracketState): string {
+  if (match.section === 'final') return match.round === 1 ? 'Grand final' : 'Grand final reset'
+  if (match.section === 'winners') {
+    const rounds = Math.round(Math.log2(bracket.seeds.length))
+    if (match.round === rounds) return bracket.kind === 'single' ? 'Final' : 'Winners final'
+    if (match.round === rounds - 1 && bracket.kind === 'single') return 'Semi-finals'
+    return bracket.kind === 'single' ? `Round ${match.round}` : `Winners R${match.round}`
+  }
+  return `Losers R${match.round}`
+}
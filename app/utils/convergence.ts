@@ -0,0 +1,103 @@
+import type { TournamentState, MatchResult } from '~/types/tournament'
+import { CONVERGENCE_MIN_ROUNDS, CONVERGENCE_MIN_STABILITY, CONVERGENCE_MAX_MOVEMENT } from '~/types/tournament'
+
+/** Size of the ranking head whose stability is tracked. */
+const TOP_SIZE = 10
+
+/** Rating movement over one completed Swiss round. */
+export interface RoundMovement {
+  /** 1-indexed Swiss round */
+  round: number
+  /** Mean absolute rating change per finalist over the round */
+  movement: number
+  /** Share of the previous Top-10 pairwise orders that still hold (0–1) */
+  stability: number
+}
+
+export interface ConvergenceStatus {
+  /** Completed Swiss rounds, oldest first */
+  rounds: RoundMovement[]
+  /** True once the ranking has stopped moving (see CONVERGENCE_* constants) */
+  converged: boolean
+}
+
+/** Pool sorted by rating, best first. */
+function rankPool (pool: string[], ratings: Map<string, number>): string[] {
+  return [...pool].sort((a, b) => (ratings.get(b) ?? 0) - (ratings.get(a) ?? 0))
+}
+
+/** Share of pairwise orders of `before`'s Top 10 kept in `after` (dropped members rank below). */
+function topStability (before: string[], after: string[]): number {
+  const top = before.slice(0, TOP_SIZE)
+  const rank = new Map(after.map((n, i) => [n, i]))
+  let pairs = 0
+  let kept = 0
+  for (let i = 0; i < top.length; i++) {
+    for (let j = i + 1; j < top.length; j++) {
+      pairs++
+      if ((rank.get(top[i]!) ?? Infinity) < (rank.get(top[j]!) ?? Infinity)) kept++
+    }
+  }
+  return pairs ? kept / pairs : 1
+}
+
+/**
+ * Phase 3 duels of each completed Swiss round, oldest first, and the duels of the round in
+ * progress. A round ends on the duel that carried a snapshot; runs from before Swiss rounds
+ * are cut every ⌊pool / 2⌋ duels.
+ */
+function splitRounds (entries: MatchResult[], poolSize: number): { rounds: MatchResult[][]; current: MatchResult[] } {
+  const rounds: MatchResult[][] = []
+  let current: MatchResult[] = []
+  const perRound = Math.floor(poolSize / 2)
+  const legacy = !entries.some(e => e.snapshot)
+  for (const entry of entries) {
+    current.push(entry)
+    if (legacy ? current.length === perRound : entry.snapshot) {
+      rounds.push(current)
+      current = []
+    }
+  }
+  return { rounds, current }
+}
+
+/**
+ * Per-round rating movement and Top-10 stability of the Swiss phase, derived from
+ * the history (ratings are rewound round by round, so undo/redo need no extra bookkeeping).
+ */
+export function getConvergence (state: TournamentState): ConvergenceStatus {
+  const pool = state.phasePool
+  const entries = state.phase === 'phase3' || state.phase === 'finished'
+    ? state.history.filter(e => e.phase === 'phase3')
+    : []
+  const { rounds: played, current } = splitRounds(entries, pool.length)
+  const roundCount = played.length
+  if (roundCount === 0) return { rounds: [], converged: false }
+
+  // Ratings at the end of each round, rewinding from the current ones
+  const ratings = new Map(pool.map(n => [n, state.archetypes[n]?.elo ?? 0]))
+  for (const entry of [...current].reverse()) {
+    for (const d of entry.eloDelta ?? []) ratings.set(d.name, d.prev?.elo ?? (ratings.get(d.name) ?? 0) - d.delta)
+  }
+  const boundaries: Map<string, number>[] = [new Map(ratings)]
+  for (let r = roundCount - 1; r >= 0; r--) {
+    for (const entry of [...played[r]!].reverse()) {
+      for (const d of entry.eloDelta ?? []) ratings.set(d.name, d.prev?.elo ?? (ratings.get(d.name) ?? 0) - d.delta)
+    }
+    boundaries.unshift(new Map(ratings))
+  }
+
+  const rounds: RoundMovement[] = []
+  for (let r = 1; r <= roundCount; r++) {
+    const before = boundaries[r - 1]!
+    const after = boundaries[r]!
+    const movement = pool.reduce((sum, n) => sum + Math.abs((after.get(n) ?? 0) - (before.get(n) ?? 0)), 0) / pool.length
+    rounds.push({ round: r, movement, stability: topStability(rankPool(pool, before), rankPool(pool, after)) })
+  }
+
+  const last = rounds.slice(-CONVERGENCE_MIN_ROUNDS)
+  const converged = rounds.length >= CONVERGENCE_MIN_ROUNDS &&
+    last.every(r => r.stability >= CONVERGENCE_MIN_STABILITY) &&
+    rounds[rounds.length - 1]!.movement <= state.config.kSwiss * CONVERGENCE_MAX_MOVEMENT
+  return { rounds, converged }
+}
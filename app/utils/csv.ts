@@ -1,41 +1,55 @@
 import type { TournamentState } from '~/types/tournament'
+import { getBracketStandings } from '~/utils/bracket'
+import { getSwissPlacement } from '~/utils/swissStandings'
+import { getRoundRobinPlacement } from '~/utils/roundRobin'
 
-/** Top 10 by descending Elo among archetypes that played at least 1 match. */
+/**
+ * Top 10 by descending Elo among archetypes that played at least 1 match.
+ * After a bracket final phase, bracket placement decides the order; in the Swiss phase or a round robin, the standings do.
+ */
 export function getTop10 (state: TournamentState): Array<{
   rank: number
   name: string
   elo: number
+  /** Rating deviation (Glicko-2 runs only) */
+  rd?: number
   wins: number
   losses: number
+  draws: number
   matchesPlayed: number
 }> {
-  // In phase 3 / finished with a finalized pool, use the phase pool
+  // In phase 3 / round robin / finished with a finalized pool, use the phase pool
   // Otherwise use all archetypes (phase 1/2 or early finish)
   const names =
-    (state.phase === 'phase3' || state.phase === 'finished') && state.phasePool?.length
+    (state.phase === 'phase3' || state.phase === 'roundRobin' || state.phase === 'finished') && state.phasePool?.length
       ? state.phasePool
       : state.remainingNames
 
+  const placement = state.bracket?.champion ? getBracketStandings(state.bracket) : getSwissPlacement(state) ?? getRoundRobinPlacement(state)
   const list = names
     .map(n => ({ name: n, ...state.archetypes[n] }))
-    .filter(a => a.elo != null && ((a.wins ?? 0) + (a.losses ?? 0)) >= 1)
-    .sort((a, b) => (b.elo ?? 0) - (a.elo ?? 0))
+    .filter(a => a.elo != null && ((a.wins ?? 0) + (a.losses ?? 0) + (a.draws ?? 0)) >= 1)
+    .sort((a, b) => placement
+      ? placement.indexOf(a.name) - placement.indexOf(b.name)
+      : (b.elo ?? 0) - (a.elo ?? 0))
     .slice(0, 10)
 
   return list.map((a, i) => ({
     rank: i + 1,
     name: a.name,
-    elo: a.elo ?? 0,
+    elo: Math.round(a.elo ?? 0),
+    ...(a.rd != null ? { rd: Math.round(a.rd) } : {}),
     wins: a.wins ?? 0,
     losses: a.losses ?? 0,
-    matchesPlayed: (a.wins ?? 0) + (a.losses ?? 0)
+    draws: a.draws ?? 0,
+    matchesPlayed: (a.wins ?? 0) + (a.losses ?? 0) + (a.draws ?? 0)
   }))
 }
 
 const CSV_HEADERS =
-  'Rank,Archetype,Elo,Wins,Losses,Matches Played'
+  'Rank,Archetype,Elo,Uncertainty,Wins,Losses,Matches Played'
 
-function escapeCsv (s: string): string {
+export function escapeCsv (s: string): string {
   if (/[",\n\r]/.test(s)) return `"${s.replace(/"/g, '""')}"`
   return s
 }
@@ -45,20 +59,24 @@ export function exportTop10Csv (state: TournamentState): string {
   const top = getTop10(state)
   const rows = [CSV_HEADERS, ...top.map(
     r =>
-      `${r.rank},${escapeCsv(r.name)},${r.elo},${r.wins},${r.losses},${r.matchesPlayed}`
+      `${r.rank},${escapeCsv(r.name)},${r.elo},${r.rd ?? ''},${r.wins},${r.losses},${r.matchesPlayed}`
   )]
   return '\uFEFF' + rows.join('\r\n')
 }
 
-/** Triggers download of the CSV file. */
-export function downloadTop10Csv (state: TournamentState): void {
+/** Triggers the download of a text file (browser only). */
+export function downloadTextFile (content: string, filename: string, type: string): void {
   if (typeof document === 'undefined') return
-  const csv = exportTop10Csv(state)
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' })
+  const blob = new Blob([content], { type })
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
-  a.download = `yugidex-top10-${state.runId.slice(0, 8)}.csv`
+  a.download = filename
   a.click()
   URL.revokeObjectURL(url)
 }
+
+/** Triggers download of the CSV file. */
+export function downloadTop10Csv (state: TournamentState): void {
+  downloadTextFile(exportTop10Csv(state), `yugidex-top10-${state.runId.slice(0, 8)}.csv`, 'text/csv;charset=utf-8')
+}
@@ -0,0 +1,52 @@
+import type { MatchResult, VoteStrength } from '~/types/tournament'
+
+/** Record of one archetype against one opponent. */
+export interface HeadToHeadRecord {
+  wins: number
+  losses: number
+  /** Duels called even */
+  draws?: number
+  /** Wins by a strong preference */
+  strongWins?: number
+  /** Wins by a slight preference (near coin flips) */
+  slightWins?: number
+}
+
+/** Head-to-head records: `h2h[a][b]` is a's record against b. */
+export type HeadToHead = Record<string, Record<string, HeadToHeadRecord>>
+
+function addResult (h2h: HeadToHead, winner: string, loser: string, strength?: VoteStrength): void {
+  const w = h2h[winner] ?? (h2h[winner] = {})
+  const l = h2h[loser] ?? (h2h[loser] = {})
+  w[loser] = { ...w[loser], wins: (w[loser]?.wins ?? 0) + 1, losses: w[loser]?.losses ?? 0 }
+  if (strength === 'strong') w[loser].strongWins = (w[loser].strongWins ?? 0) + 1
+  if (strength === 'slight') w[loser].slightWins = (w[loser].slightWins ?? 0) + 1
+  l[winner] = { ...l[winner], wins: l[winner]?.wins ?? 0, losses: (l[winner]?.losses ?? 0) + 1 }
+}
+
+function addDraw (h2h: HeadToHead, a: string, b: string): void {
+  for (const [x, y] of [[a, b], [b, a]] as const) {
+    const row = h2h[x] ?? (h2h[x] = {})
+    row[y] = { ...row[y], wins: row[y]?.wins ?? 0, losses: row[y]?.losses ?? 0, draws: (row[y]?.draws ?? 0) + 1 }
+  }
+}
+
+/**
+ * Builds head-to-head records from the resolved choices: a group win beats each loser,
+ * and in an ordered group each loser also beats the ones ranked below it. Wins keep
+ * count of the strong and slight preferences among them.
+ */
+export function getHeadToHead (history: MatchResult[]): HeadToHead {
+  const h2h: HeadToHead = {}
+  for (const entry of history) {
+    if (entry.draw && entry.loser) {
+      addDraw(h2h, entry.winner, entry.loser)
+      continue
+    }
+    const order = [entry.winner, ...(entry.losers ?? (entry.loser ? [entry.loser] : []))]
+    for (let a = 0; a < (entry.ordered ? order.length : 1); a++) {
+      for (let b = a + 1; b < order.length; b++) addResult(h2h, order[a]!, order[b]!, entry.strength)
+    }
+  }
+  return h2h
+}
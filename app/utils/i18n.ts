@@ -6,27 +6,221 @@ const translations: Record<string, Partial<Record<CardLanguage, string>> & { en:
   'start.title': { en: 'ArcheDuel' },
   'start.tagline': { en: 'Choose your favorite archetype.\nDuel by duel.' },
   'start.cta': { en: 'Start tournament' },
+  'start.seed': { en: 'Seed' },
+  'start.seed.placeholder': { en: 'random' },
+  'start.seed.hint': { en: 'Same seed and archetype list = same groups. Leave empty for a random run.' },
+  'start.roundRobin.pool': { en: 'A round robin plays every pair: narrow the pool filters to 16 archetypes or fewer.' },
+  'pool.title': { en: 'Pool filters' },
+  'pool.loading': { en: 'Loading archetypes…' },
+  'pool.count': { en: 'archetypes' },
+  'pool.tooFew': { en: 'at least 4 needed' },
+  'pool.mode': { en: 'Pool' },
+  'pool.mode.filters': { en: 'Filters' },
+  'pool.mode.picked': { en: 'Hand-picked' },
+  'pool.add': { en: 'Add' },
+  'pool.pickedEmpty': { en: 'Search archetypes and add them one by one.' },
+  'pool.attribute': { en: 'Attribute' },
+  'pool.race': { en: 'Monster type' },
+  'pool.extra': { en: 'Extra Deck' },
+  'pool.extra.none': { en: 'No Extra' },
+  'pool.extra.fusion': { en: 'Fusion' },
+  'pool.extra.synchro': { en: 'Synchro' },
+  'pool.extra.xyz': { en: 'Xyz' },
+  'pool.extra.link': { en: 'Link' },
+  'pool.extra.mixed': { en: 'Mixed' },
+  'pool.minMonsters': { en: 'Min. monsters' },
+  'pool.fromYear': { en: 'From year' },
+  'pool.toYear': { en: 'To year' },
+  'pool.namePlaceholder': { en: 'Archetype name' },
+  'pool.include': { en: 'Include' },
+  'pool.exclude': { en: 'Exclude' },
+  'pool.remove': { en: 'Remove' },
+  'pool.presetName': { en: 'Preset name' },
+  'pool.savePreset': { en: 'Save preset' },
+  'pool.loadPreset': { en: 'Load preset' },
+  'pool.startPreset': { en: 'Start a run on this preset' },
+  'pool.deletePreset': { en: 'Delete preset' },
+  'pool.clear': { en: 'Clear' },
+  'seeding.title': { en: 'Start from past preferences' },
+  'seeding.source': { en: 'Starting ratings' },
+  'seeding.none': { en: 'None (everyone at 1000)' },
+  'seeding.votes': { en: 'All my votes' },
+  'seeding.run': { en: 'a previous run' },
+  'seeding.nothing': { en: 'No saved run or vote yet.' },
+  'seeding.decay': { en: 'Kept per month of age:' },
+  'seeding.phase1': { en: 'Phase 1' },
+  'seeding.phase1.full': { en: 'Full phase 1' },
+  'seeding.phase1.short': { en: 'One round' },
+  'seeding.phase1.skip': { en: 'Skip phase 1' },
+  'format.label': { en: 'Tournament format' },
+  'format.quick': { en: 'Quick' },
+  'format.quick.hint': { en: '~10 min' },
+  'format.standard': { en: 'Standard' },
+  'format.standard.hint': { en: 'Balanced' },
+  'format.thorough': { en: 'Thorough' },
+  'format.thorough.hint': { en: 'Long, precise' },
+  'format.round-robin': { en: 'Round robin' },
+  'format.round-robin.hint': { en: 'Up to 16, every pair' },
+  'finalPhase.label': { en: 'Final phase' },
+  'finalPhase.swiss': { en: 'Swiss' },
+  'finalPhase.swiss.hint': { en: 'Rounds' },
+  'finalPhase.single-elimination': { en: 'Knockout' },
+  'finalPhase.single-elimination.hint': { en: 'Single elim.' },
+  'finalPhase.double-elimination': { en: 'Double knockout' },
+  'finalPhase.double-elimination.hint': { en: 'Losers bracket' },
+  'finalPhase.round-robin': { en: 'Round robin' },
+  'finalPhase.round-robin.hint': { en: 'Every pair once' },
+  'groupOrdering.label': { en: 'Groups' },
+  'groupOrdering.winner': { en: 'Pick winner' },
+  'groupOrdering.winner.hint': { en: 'One tap per group' },
+  'groupOrdering.full': { en: 'Rank all' },
+  'groupOrdering.full.hint': { en: '3× more info per group' },
+  'repechage.label': { en: 'Repechage' },
+  'repechage.off': { en: 'Hard cut' },
+  'repechage.off.hint': { en: 'Top ratings go through' },
+  'repechage.on': { en: 'Repechage' },
+  'repechage.on.hint': { en: 'Near-misses play for 2 spots' },
+  'repechage.badge': { en: 'Repechage' },
+  'repechage.spots': { en: 'wildcard spots' },
+  'swissPairing.label': { en: 'Swiss pairing' },
+  'swissPairing.classic': { en: 'Classic' },
+  'swissPairing.classic.hint': { en: 'Same score' },
+  'swissPairing.informative': { en: 'Adaptive' },
+  'swissPairing.informative.hint': { en: 'Most informative' },
+  'ratingModel.label': { en: 'Rating model' },
+  'ratingModel.elo': { en: 'Elo' },
+  'ratingModel.elo.hint': { en: 'Classic' },
+  'ratingModel.glicko2': { en: 'Glicko-2' },
+  'ratingModel.glicko2.hint': { en: 'With uncertainty' },
+  'blind.label': { en: 'Blind mode' },
+  'blind.off': { en: 'Names shown' },
+  'blind.off.hint': { en: 'Archetype names on every card' },
+  'blind.reveal': { en: 'Blind, reveal' },
+  'blind.reveal.hint': { en: 'Names flip in after each pick' },
+  'blind.results': { en: 'Blind to the end' },
+  'blind.results.hint': { en: 'Names only on the results' },
+  'blind.tag': { en: 'Blind' },
   'header.tournament': { en: 'ArcheDuel' },
+  'history.title': { en: 'Run history' },
+  'history.back': { en: 'Back to tournament' },
+  'history.empty': { en: 'No saved run yet.' },
+  'history.finished': { en: 'Finished' },
+  'history.archetypes': { en: 'archetypes' },
+  'history.choices': { en: 'choices' },
+  'history.seed': { en: 'seed' },
+  'history.resume': { en: 'Resume' },
+  'history.view': { en: 'View results' },
+  'history.duplicate': { en: 'Duplicate' },
+  'history.compare': { en: 'Compare' },
+  'history.delete': { en: 'Delete' },
+  'history.confirmDelete': { en: 'Delete this run? This cannot be undone.' },
+  'history.compareTitle': { en: 'Top 10 comparison' },
+  'history.shared': { en: 'in common' },
+  'history.new': { en: 'new' },
+  'ranking.title': { en: 'My all-time ranking' },
+  'ranking.empty': { en: 'No vote yet. Play a run and your preferences will add up here.' },
+  'ranking.votes': { en: 'votes' },
+  'ranking.months': { en: 'months' },
+  'ranking.archetype': { en: 'Archetype' },
+  'ranking.rating': { en: 'Rating' },
+  'ranking.rating.title': { en: 'Glicko-2 rating over every vote, ± the 95% confidence margin' },
+  'ranking.comparisons': { en: 'Comparisons' },
+  'ranking.comparisons.title': { en: 'Votes involving the archetype (hover a count for wins / losses / draws)' },
+  'ranking.trend': { en: 'Rank over time' },
+  'ranking.showAll': { en: 'Show all' },
+  'ranking.sources': { en: 'Runs counted' },
+  'ranking.sources.hint': { en: 'Untick a run to leave its votes out of the ranking. Nothing is deleted.' },
+  'ranking.untagged': { en: 'Earlier votes (run unknown)' },
+  'ranking.deletedRun': { en: 'Deleted run' },
+  'standings.title': { en: 'Swiss standings' },
+  'standings.duels': { en: 'duels' },
+  'standings.archetype': { en: 'Archetype' },
+  'standings.points': { en: 'Pts' },
+  'standings.points.title': { en: 'Match points: 1 per win or bye, ½ per draw' },
+  'standings.record': { en: 'W-D-L' },
+  'standings.record.title': { en: 'Wins, draws and losses (+ byes)' },
+  'standings.buchholz': { en: 'Bu' },
+  'standings.buchholz.title': { en: "Buchholz: sum of the opponents' points (first tiebreak)" },
+  'standings.sb': { en: 'SB' },
+  'standings.sb.title': { en: 'Sonneborn-Berger: points of the beaten opponents, half those of the drawn ones (second tiebreak)' },
+  'standings.bye': { en: 'bye' },
+  'roundRobin.title': { en: 'Round-robin table' },
+  'roundRobin.record': { en: 'W-L' },
+  'roundRobin.record.title': { en: 'Wins and losses (ties: duels among the tied, then rating)' },
+  'roundRobin.played': { en: 'Played' },
+  'roundRobin.played.title': { en: 'Duels played out of the duels each archetype has to play' },
   'loading.shuffle': { en: 'Shuffling deck…' },
   'loading.prepare': { en: 'Preparing your duel' },
   'loading.next': { en: 'Next duel…' },
   'phase1.badge': { en: 'Phase 1 — Coverage' },
   'phase2.badge': { en: 'Phase 2 — Refinement' },
+  'position.title': { en: 'Screen position bias' },
+  'position.flag': { en: 'bias detected' },
+  'position.cards': { en: 'cards on screen' },
+  'position.choices': { en: 'choices' },
+  'position.left': { en: 'Left' },
+  'position.right': { en: 'Right' },
+  'position.slot': { en: 'Slot' },
+  'position.even': { en: 'No significant bias' },
+  'position.significant': { en: 'Significant bias (p < 0.05)' },
+  'position.corrected': { en: 'offset in the ratings' },
+  'position.notCorrected': { en: 'not offset in the ratings of this run' },
+  'position.legend': { en: 'Share of the choices won from each slot; the line marks an even split. Card order is drawn from the seed for every choice.' },
+  'strength.label': { en: 'Preference' },
+  'strength.slight': { en: 'Slight' },
+  'strength.slight.hint': { en: 'Almost a coin flip: the ratings move half as much' },
+  'strength.clear': { en: 'Clear' },
+  'strength.clear.hint': { en: 'A plain choice (default)' },
+  'strength.strong': { en: 'Strong' },
+  'strength.strong.hint': { en: 'An obvious favorite: the ratings move 1.5× as much' },
   'duel.instruction': { en: 'Tap the card' },
   'duel.instruction.suffix': { en: ' of the winner.' },
+  'duel.instruction.order': { en: 'Tap the cards' },
+  'duel.instruction.order.suffix': { en: ' from favorite to least favorite.' },
   'btn.previous': { en: 'Previous' },
+  'btn.redo': { en: 'Redo' },
   'btn.reset': { en: 'Reset' },
   'btn.finish': { en: 'Finish tournament' },
   'btn.finishEarly': { en: 'Finish early' },
+  'btn.draw': { en: "Can't decide" },
+  'btn.draw.title': { en: 'Call this duel a draw (half a win for each side)' },
+  'btn.skipGroup': { en: 'Skip this group' },
+  'btn.skipGroup.title': { en: 'No result: these archetypes are moved to later groups of the round' },
+  'btn.keepGoing': { en: 'Keep going' },
   'roundProgress': { en: 'Choice' },
   'btn.changeCard': { en: 'Change card' },
   'results.label': { en: 'Final Rankings' },
   'results.title': { en: 'Top 10' },
+  'results.seed': { en: 'Seed' },
+  'results.seededFrom': { en: 'ratings seeded from' },
+  'audit.title': { en: 'Is this ranking real?' },
+  'audit.cyclesCount': { en: 'cycles' },
+  'audit.luckyCount': { en: 'lucky wins' },
+  'audit.legend': { en: 'Row vs column: wins-losses(-draws) in this run (empty = never met; hover for strong / slight wins). Finalists in ranking order.' },
+  'audit.strongWins': { en: 'strong' },
+  'audit.slightWins': { en: 'slight' },
+  'audit.cycles': { en: 'Preference cycles' },
+  'audit.noCycles': { en: 'No cycle: the head-to-head results agree with a single order.' },
+  'audit.moreCycles': { en: 'more cycles' },
+  'audit.lucky': { en: 'Resting on one group win' },
+  'audit.noLucky': { en: 'No finalist owes its place to a single group win.' },
+  'audit.luckyWin': { en: 'only group win, rating gained by it / in the whole run:' },
   'btn.downloadCsv': { en: 'Download CSV' },
+  'btn.history': { en: 'History' },
+  'btn.allTime': { en: 'All-time ranking' },
+  'btn.exportRun': { en: 'Save file' },
+  'btn.exportRun.title': { en: 'Download this run (state and votes) to resume it elsewhere' },
+  'btn.importRun': { en: 'Resume from a file' },
+  'btn.downloadRankingCsv': { en: 'Full ranking (CSV)' },
+  'btn.downloadRankingJson': { en: 'Full ranking (JSON)' },
   'btn.playAgain': { en: 'Play again' },
   'round': { en: 'Round' },
   'swissRound': { en: 'Swiss round' },
   'phase3.badge': { en: 'Phase 3' },
+  'convergence.stability': { en: 'Top 10 stable' },
+  'convergence.offer': { en: 'The ranking has converged: the Top 10 barely moves anymore.' },
+  'bracket.badge': { en: 'Bracket' },
+  'roundRobin.badge': { en: 'Round robin' },
   'cardCategory.extra': { en: 'Extra Deck' },
   'cardCategory.main': { en: 'Main Deck Monster' },
   'cardCategory.spell': { en: 'Spell' },
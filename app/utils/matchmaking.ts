@@ -1,5 +1,7 @@
 import type { TournamentState, ArchetypeState } from '~/types/tournament'
-import { seededShuffle } from '~/utils/state'
+import { seededShuffle, deriveSeed } from '~/utils/random'
+import { getRatingModel, GLICKO_INITIAL_RD } from '~/utils/ratingModel'
+import { getSwissStandings } from '~/utils/swissStandings'
 
 /** Normalized key for a pair (alphabetical order). */
 export function matchKey (a: string, b: string): string {
@@ -135,7 +137,7 @@ export function buildCoverageGroups (
   for (let t = 0; t < tiers.length; t++) {
     // Group by theme, then shuffle within each cluster
     const themed = clusterByTheme(tiers[t]!, archetypes)
-    const shuffled = themedShuffle(themed, archetypes, seed + t * 777)
+    const shuffled = themedShuffle(themed, archetypes, deriveSeed(seed, 'tier', t))
     allGroups.push(...chunkGroups(shuffled, groupSize))
   }
   return mergeSmallGroups(allGroups)
@@ -158,11 +160,7 @@ function themedShuffle (
     clusters.get(key)!.push(name)
   }
   const keys = seededShuffle([...clusters.keys()], seed)
-  const out: string[] = []
-  for (let i = 0; i < keys.length; i++) {
-    out.push(...seededShuffle(clusters.get(keys[i]!)!, seed + i * 333))
-  }
-  return out
+  return keys.flatMap(key => seededShuffle(clusters.get(key)!, deriveSeed(seed, 'cluster', key)))
 }
 
 /**
@@ -196,68 +194,166 @@ export function buildEloProximityGroups (
       })
       for (let i = 0; i < sorted.length; i += groupSize) {
         const block = sorted.slice(i, i + groupSize)
-        allGroups.push(seededShuffle(block, seed + t * 777 + i))
+        allGroups.push(seededShuffle(block, deriveSeed(seed, 'tier', t, i)))
       }
     }
   }
   return mergeSmallGroups(allGroups)
 }
 
+/** Most partial pairings tried when looking for a Swiss round without rematches. */
+const SWISS_SEARCH_LIMIT = 20000
+
+/**
+ * Pairs `order` (best standing first) so that nobody meets an opponent twice, each archetype
+ * taking the closest available score, same card count then same theme preferred. Null when no such round exists
+ * (or the search gave up).
+ */
+function pairWithoutRematch (
+  state: TournamentState,
+  order: string[],
+  points: Map<string, number>
+): [string, string][] | null {
+  const played = new Set(state.matchesPlayed)
+  const cards = (name: string) => state.archetypes[name]?.representativeCards?.length ?? 0
+  const theme = (name: string) => thematicKey(name, state.archetypes)
+  const used = new Set<string>()
+  const pairs: [string, string][] = []
+  let steps = 0
+  const search = (): boolean => {
+    const a = order.find(n => !used.has(n))
+    if (!a) return true
+    if (++steps > SWISS_SEARCH_LIMIT) return false
+    used.add(a)
+    const candidates = order
+      .filter(b => !used.has(b) && !played.has(matchKey(a, b)))
+      .map((b, idx) => ({
+        b,
+        idx,
+        gap: Math.abs((points.get(a) ?? 0) - (points.get(b) ?? 0)),
+        sameCards: cards(a) === cards(b),
+        sameTheme: theme(a) === theme(b)
+      }))
+      .sort((x, y) => x.gap - y.gap || Number(y.sameCards) - Number(x.sameCards) || Number(y.sameTheme) - Number(x.sameTheme) || x.idx - y.idx)
+    for (const { b } of candidates) {
+      used.add(b)
+      pairs.push([a, b])
+      if (search()) return true
+      pairs.pop()
+      used.delete(b)
+    }
+    used.delete(a)
+    return false
+  }
+  return search() ? pairs : null
+}
+
+/**
+ * Pairs of a Swiss round: every archetype of the pool plays once. On an odd pool, the lowest
+ * ranked archetype among those with the fewest byes sits out. Classic pairing matches archetypes
+ * on the same score, top of the standings first; adaptive pairing takes the most informative
+ * pairs first. Rematches only happen when no round without one can be found.
+ */
+export function buildSwissRound (
+  state: TournamentState,
+  pool: string[]
+): { pairs: [string, string][]; bye: string | null } {
+  const standings = getSwissStandings(state, pool)
+  const order = standings.map(s => s.name)
+  const points = new Map(standings.map(s => [s.name, s.points]))
+
+  let bye: string | null = null
+  if (order.length % 2 === 1) {
+    const byes = new Map(standings.map(s => [s.name, s.byes]))
+    const fewest = Math.min(...byes.values())
+    bye = [...order].reverse().find(n => byes.get(n) === fewest)!
+    order.splice(order.indexOf(bye), 1)
+  }
+
+  let pairs: [string, string][] | null = null
+  if (state.config.swissPairing === 'informative') {
+    const greedy: [string, string][] = []
+    let rest = order
+    while (rest.length >= 2) {
+      const next = getNextMatchInformative(state, rest)
+      if (!next) break
+      greedy.push(next)
+      rest = rest.filter(n => !next.includes(n))
+    }
+    const tail = pairWithoutRematch(state, rest, points)
+    if (tail) pairs = [...greedy, ...tail]
+  }
+  pairs ??= pairWithoutRematch(state, order, points)
+  // Every pairing repeats a duel: neighbours in the standings meet again
+  pairs ??= Array.from({ length: order.length / 2 }, (_, i): [string, string] => [order[2 * i]!, order[2 * i + 1]!])
+  return { pairs, bye }
+}
+
+/** Ranks below which a pair barely matters for the Top 10 (soft cut-off). */
+const INFORMATIVE_TOP_FOCUS = 10
+
 /**
- * Swiss pairing: pool sorted by card count desc, then score, then Elo.
- * Adjacent pairs, avoids rematches.
- * Prefers: same card count → same theme → same score → progressively relaxes.
- * Returns [nameA, nameB] or null if no pair available.
+ * Active-learning pairing: picks the unplayed pair whose result tells the most about
+ * the top of the table. A pair scores high when:
+ * - the outcome is uncertain (expected score close to 50%, per the run's rating model);
+ * - both archetypes are near the top (weight decays past the 10th place);
+ * - their ratings are still uncertain (Glicko RD, or few games played with Elo);
+ * - they share few opponents (a common opponent already links them indirectly).
+ * Same card count is preferred, as in the classic pairing. Returns null if every pair was played.
  */
-export function getNextMatchSwiss (
+export function getNextMatchInformative (
   state: TournamentState,
   pool: string[]
 ): [string, string] | null {
   if (pool.length < 2) return null
 
+  const model = getRatingModel(state.config.ratingModel)
   const playedSet = new Set(state.matchesPlayed)
-  const sorted = [...pool].sort((a, b) => {
-    const entryA = state.archetypes[a]
-    const entryB = state.archetypes[b]
-    // First by number of representative cards (desc)
-    const cardsA = entryA?.representativeCards?.length ?? 0
-    const cardsB = entryB?.representativeCards?.length ?? 0
-    if (cardsB !== cardsA) return cardsB - cardsA
-    // Then by score (wins - losses)
-    const scoreA = (entryA?.wins ?? 0) - (entryA?.losses ?? 0)
-    const scoreB = (entryB?.wins ?? 0) - (entryB?.losses ?? 0)
-    if (scoreB !== scoreA) return scoreB - scoreA
-    return (entryB?.elo ?? 1000) - (entryA?.elo ?? 1000)
-  })
+  const opponents = new Map<string, Set<string>>(pool.map(n => [n, new Set()]))
+  for (const key of state.matchesPlayed) {
+    const [a, b] = key.split('|') as [string, string]
+    opponents.get(a)?.add(b)
+    opponents.get(b)?.add(a)
+  }
+
+  const ranked = [...pool].sort((a, b) => (state.archetypes[b]?.elo ?? 1000) - (state.archetypes[a]?.elo ?? 1000))
+  const info = new Map(ranked.map((name, rank) => {
+    const entry = state.archetypes[name]
+    const games = (entry?.wins ?? 0) + (entry?.losses ?? 0)
+    return [name, {
+      rating: { elo: entry?.elo ?? 1000, rd: entry?.rd, volatility: entry?.volatility },
+      cards: entry?.representativeCards?.length ?? 0,
+      focus: 1 / (1 + Math.exp((rank - INFORMATIVE_TOP_FOCUS) / 2)),
+      uncertainty: entry?.rd != null ? entry.rd / GLICKO_INITIAL_RD : 1 / Math.sqrt(1 + games)
+    }]
+  }))
 
-  // Increasing tolerances: same cards + same theme → same cards → all
-  const passes: { sameCards: boolean; sameTheme: boolean }[] = [
-    { sameCards: true, sameTheme: true },
-    { sameCards: true, sameTheme: false },
-    { sameCards: false, sameTheme: false }
-  ]
-  for (const { sameCards, sameTheme } of passes) {
-    const tolerances = [0, 1, 2, 3, 10, Infinity]
-    for (const scoreTol of tolerances) {
-      for (let i = 0; i < sorted.length; i++) {
-        const nameI = sorted[i]!
-        const entryI = state.archetypes[nameI]
-        const cardsI = entryI?.representativeCards?.length ?? 0
-        const themeI = thematicKey(nameI, state.archetypes)
-        const scoreI = (entryI?.wins ?? 0) - (entryI?.losses ?? 0)
-        for (let j = i + 1; j < sorted.length; j++) {
-          const nameJ = sorted[j]!
-          const entryJ = state.archetypes[nameJ]
-          const cardsJ = entryJ?.representativeCards?.length ?? 0
-          if (sameCards && cardsI !== cardsJ) continue
-          if (sameTheme && thematicKey(nameJ, state.archetypes) !== themeI) continue
-          const scoreJ = (entryJ?.wins ?? 0) - (entryJ?.losses ?? 0)
-          if (Math.abs(scoreI - scoreJ) > scoreTol) continue
-          const key = matchKey(nameI, nameJ)
-          if (!playedSet.has(key)) return [nameI, nameJ]
+  for (const sameCards of [true, false]) {
+    let best: [string, string] | null = null
+    let bestScore = -Infinity
+    for (let i = 0; i < ranked.length; i++) {
+      const nameI = ranked[i]!
+      const a = info.get(nameI)!
+      for (let j = i + 1; j < ranked.length; j++) {
+        const nameJ = ranked[j]!
+        const b = info.get(nameJ)!
+        if (sameCards && a.cards !== b.cards) continue
+        if (playedSet.has(matchKey(nameI, nameJ))) continue
+        const p = Math.min(Math.max(model.expected(a.rating, b.rating), 1e-6), 1 - 1e-6)
+        const entropy = -(p * Math.log2(p) + (1 - p) * Math.log2(1 - p))
+        let shared = 0
+        for (const o of opponents.get(nameI)!) if (opponents.get(nameJ)!.has(o)) shared++
+        const score = entropy *
+          (a.focus + b.focus) / 2 *
+          (a.uncertainty + b.uncertainty) / 2 /
+          (1 + shared)
+        if (score > bestScore) {
+          bestScore = score
+          best = [nameI, nameJ]
         }
       }
     }
+    if (best) return best
   }
   return null
 }
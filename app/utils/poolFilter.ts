@@ -0,0 +1,120 @@
+import type { ArchetypeCatalog, ArchetypeMeta, PoolFilter, PoolPreset } from '~/types/pool'
+import type { ExtraPolicy } from '~/types/ranking'
+import type { TournamentConfig } from '~/types/tournament'
+import { uuid } from '~/utils/random'
+
+/** Saved pool presets (list, most recent first). */
+const PRESETS_KEY = 'yugidex-pool-presets'
+
+/** Below this many archetypes, the group phases are reduced to a single round each. */
+const MIN_GROUP_POOL = 8
+
+/** Extra Deck policies in display order. */
+export const EXTRA_POLICIES: ExtraPolicy[] = ['none', 'fusion', 'synchro', 'xyz', 'link', 'mixed']
+
+/** Filter that keeps every archetype. */
+export function emptyPoolFilter (): PoolFilter {
+  return { picked: null, attributes: [], races: [], extraPolicies: [], minMonsters: 0, fromYear: null, toYear: null, include: [], exclude: [] }
+}
+
+/** True when the filter keeps every archetype. */
+export function isEmptyPoolFilter (filter: PoolFilter): boolean {
+  return filter.picked == null && !filter.attributes.length && !filter.races.length && !filter.extraPolicies.length &&
+    filter.minMonsters <= 0 && filter.fromYear == null && filter.toYear == null &&
+    !filter.include.length && !filter.exclude.length
+}
+
+/** Whether an archetype passes the criteria (include/exclude lists aside). Unknown data fails any set criterion. */
+function matchesCriteria (meta: ArchetypeMeta | undefined, filter: PoolFilter): boolean {
+  const attribute = meta?.dominantAttribute
+  const race = meta?.dominantRace
+  const year = meta?.firstYear
+  if (filter.attributes.length && (!attribute || !filter.attributes.includes(attribute))) return false
+  if (filter.races.length && (!race || !filter.races.includes(race))) return false
+  if (filter.extraPolicies.length && (!meta || !filter.extraPolicies.includes(meta.extraPolicy))) return false
+  if (filter.minMonsters > 0 && (meta?.monsterCount ?? 0) < filter.minMonsters) return false
+  if (filter.fromYear != null && (year == null || year < filter.fromYear)) return false
+  if (filter.toYear != null && (year == null || year > filter.toYear)) return false
+  return true
+}
+
+/** Archetypes of the catalog kept by the filter (exclusions win over inclusions). */
+export function filterPool (catalog: ArchetypeCatalog, filter: PoolFilter): string[] {
+  if (filter.picked) {
+    const picked = new Set(filter.picked)
+    return catalog.names.filter(name => picked.has(name))
+  }
+  const include = new Set(filter.include)
+  const exclude = new Set(filter.exclude)
+  return catalog.names.filter(name =>
+    !exclude.has(name) && (include.has(name) || matchesCriteria(catalog.meta[name], filter))
+  )
+}
+
+/** Values found in the catalog, for the filter options. */
+export function getPoolFacets (catalog: ArchetypeCatalog): {
+  attributes: string[]
+  races: string[]
+  years: { min: number; max: number } | null
+} {
+  const attributes = new Set<string>()
+  const races = new Set<string>()
+  const years: number[] = []
+  for (const name of catalog.names) {
+    const meta = catalog.meta[name]
+    if (meta?.dominantAttribute) attributes.add(meta.dominantAttribute)
+    if (meta?.dominantRace) races.add(meta.dominantRace)
+    if (meta?.firstYear != null) years.push(meta.firstYear)
+  }
+  return {
+    attributes: [...attributes].sort(),
+    races: [...races].sort(),
+    years: years.length ? { min: Math.min(...years), max: Math.max(...years) } : null
+  }
+}
+
+/**
+ * Phase sizes for a pool of `size` archetypes. Phase 2 keeps at least as many archetypes as the
+ * final phase takes (a pool that fits in it is not cut at all), there are never more Swiss rounds
+ * than possible opponents, and pools below MIN_GROUP_POOL play a single round of groups per phase.
+ */
+export function adaptConfigToPool (config: TournamentConfig, size: number): TournamentConfig {
+  const next = { ...config }
+  const finalists = config.finalPhase === 'swiss' ? config.swissPoolSize : config.bracketSize
+  next.refinementPoolFraction = Math.max(config.refinementPoolFraction, Math.min(1, finalists / size))
+  next.swissRoundCount = Math.max(1, Math.min(config.swissRoundCount, size - 1))
+  if (size < MIN_GROUP_POOL) {
+    next.coverageRoundCount = Math.min(config.coverageRoundCount, 1)
+    next.refinementRoundCount = 1
+  }
+  return next
+}
+
+/** Saved pool presets, most recent first. */
+export function listPoolPresets (): PoolPreset[] {
+  if (!import.meta.client) return []
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY)
+    const list = raw ? JSON.parse(raw) as PoolPreset[] : []
+    return Array.isArray(list) ? list.map(p => ({ ...p, filter: { ...emptyPoolFilter(), ...p.filter } })) : []
+  } catch {
+    return []
+  }
+}
+
+function writePresets (list: PoolPreset[]): void {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(list))
+  } catch {}
+}
+
+/** Saves the filter under `name` (a preset with the same name is replaced). */
+export function savePoolPreset (name: string, filter: PoolFilter): PoolPreset {
+  const preset: PoolPreset = { id: uuid(), name: name.trim(), filter, savedAt: new Date().toISOString() }
+  writePresets([preset, ...listPoolPresets().filter(p => p.name !== preset.name)])
+  return preset
+}
+
+export function deletePoolPreset (id: string): void {
+  writePresets(listPoolPresets().filter(p => p.id !== id))
+}
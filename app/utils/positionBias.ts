@@ -0,0 +1,80 @@
+import type { MatchResult, TournamentState } from '~/types/tournament'
+import { deriveSeed, seededShuffle } from '~/utils/random'
+
+/** χ² critical values at p = 0.05, by degrees of freedom (2 to 4 cards on screen: 1 to 3). */
+const CHI_SQUARE_CRITICAL = [3.841, 5.991, 7.815]
+/** Picks needed per slot (on average) before a layout is tested */
+const MIN_PICKS_PER_SLOT = 5
+/** Elo points per natural-log unit of odds */
+const ELO_PER_LOG_ODDS = 400 / Math.LN10
+
+/** Pick rates by screen slot for one layout (number of cards on screen). */
+export interface LayoutBias {
+  /** Cards on screen */
+  cards: number
+  /** Choices whose winner sat in each slot (left to right, then row by row) */
+  picks: number[]
+  total: number
+  /** Share of the choices won from each slot */
+  rates: number[]
+  /** Goodness of fit against picks spread evenly over the slots */
+  chiSquare: number
+  /** Rates too uneven to be chance (p < 0.05, with enough choices) */
+  significant: boolean
+  /** Rating points the slot gives its card in the expected score (all 0 unless significant) */
+  offsets: number[]
+}
+
+/** Order in which the cards of a match are shown, drawn from the run seed (a new order per choice). */
+export function displayOrder (state: TournamentState, match: string[]): string[] {
+  return seededShuffle([...match], deriveSeed(state.seed, 'display', state.round))
+}
+
+/**
+ * Pick rate by screen slot of the run's choices, per layout. History matches are stored in
+ * screen order, so the winner's slot is its index in `match`. When a layout's rates are
+ * significant, each slot gets a Bradley-Terry strength (smoothed pick odds) in rating points.
+ */
+export function getPositionBias (history: MatchResult[]): LayoutBias[] {
+  const picksBySize = new Map<number, number[]>()
+  for (const entry of history) {
+    if (entry.skipped || entry.draw || !entry.winner) continue
+    const cards = entry.match.length
+    const slot = entry.match.indexOf(entry.winner)
+    if (cards < 2 || cards > CHI_SQUARE_CRITICAL.length + 1 || slot < 0) continue
+    const picks = picksBySize.get(cards) ?? Array.from({ length: cards }, () => 0)
+    picks[slot]!++
+    picksBySize.set(cards, picks)
+  }
+
+  return [...picksBySize.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([cards, picks]) => {
+      const total = picks.reduce((sum, n) => sum + n, 0)
+      const expected = total / cards
+      const chiSquare = picks.reduce((sum, n) => sum + (n - expected) ** 2 / expected, 0)
+      const significant = total >= MIN_PICKS_PER_SLOT * cards && chiSquare > CHI_SQUARE_CRITICAL[cards - 2]!
+      const strengths = picks.map(n => Math.log((n + 1) / (total + cards)))
+      const mean = strengths.reduce((sum, x) => sum + x, 0) / cards
+      return {
+        cards,
+        picks,
+        total,
+        rates: picks.map(n => n / total),
+        chiSquare,
+        significant,
+        offsets: strengths.map(x => significant ? (x - mean) * ELO_PER_LOG_ODDS : 0)
+      }
+    })
+}
+
+/**
+ * Rating offset of each archetype of the match on screen, from the bias measured on the
+ * choices made so far; null when that layout shows no significant bias.
+ */
+export function getSlotOffsets (state: TournamentState): Record<string, number> | null {
+  const match = state.currentMatch ?? []
+  const layout = getPositionBias(state.history).find(l => l.cards === match.length)
+  if (!layout?.significant) return null
+  return Object.fromEntries(match.map((name, slot) => [name, layout.offsets[slot]!]))
+}
@@ -0,0 +1,103 @@
+import type { TournamentState, TournamentConfig, Rating, RatingSeed, RatingSeedSource } from '~/types/tournament'
+import { VOTE_STRENGTH_WEIGHTS } from '~/types/tournament'
+import type { Vote } from '~/types/ranking'
+import { getRatingModel } from '~/utils/ratingModel'
+import { loadRun } from '~/utils/runStorage'
+import { loadPersonalRanking } from '~/utils/rankingStorage'
+
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000
+
+/** How much of Phase 1 a seeded run plays: all of it, a single round, or none. */
+export type SeededPhase1 = 'full' | 'short' | 'skip'
+
+/** Start-screen choice of where the starting ratings come from. */
+export interface RatingSeedRequest {
+  source: RatingSeedSource
+  /** Share of a preference kept per month of age (1 = no decay) */
+  decay: number
+  phase1: SeededPhase1
+}
+
+/** Weight left to a preference expressed at `at`: `decay` per month of age. */
+export function decayWeight (at: string, decay: number, now = Date.now()): number {
+  const months = Math.max(0, (now - new Date(at).getTime()) / MONTH_MS)
+  return Number.isFinite(months) ? decay ** months : 0
+}
+
+/** Ratings of a past run, pulled back toward a newcomer's rating as the run gets older. */
+export function ratingsFromRun (
+  run: TournamentState,
+  names: string[],
+  config: TournamentConfig,
+  decay: number,
+  now?: number
+): Record<string, Rating> {
+  const initial = getRatingModel(config.ratingModel).initial()
+  const weight = decayWeight(run.events?.at(-1)?.at ?? run.createdAt, decay, now)
+  const ratings: Record<string, Rating> = {}
+  for (const name of names) {
+    const prev = run.archetypes[name]
+    if (!prev) continue
+    ratings[name] = {
+      ...initial,
+      elo: Math.round(initial.elo + (prev.elo - initial.elo) * weight),
+      // Less certain as the preference fades (Glicko-2)
+      ...(initial.rd != null ? { rd: initial.rd - (initial.rd - (prev.rd ?? initial.rd)) * weight } : {})
+    }
+  }
+  return ratings
+}
+
+/** Ratings from the whole vote log, oldest vote first, each one weighted by its age and strength. */
+export function ratingsFromVotes (
+  votes: Vote[],
+  names: string[],
+  config: TournamentConfig,
+  decay: number,
+  now?: number
+): Record<string, Rating> {
+  const model = getRatingModel(config.ratingModel)
+  const pool = new Set(names)
+  const ratings: Record<string, Rating> = {}
+  const sorted = [...votes].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  for (const vote of sorted) {
+    const { winnerId: a, loserId: b } = vote
+    if (a === b || !pool.has(a) || !pool.has(b)) continue
+    const weight = decayWeight(vote.timestamp, decay, now) * VOTE_STRENGTH_WEIGHTS[vote.strength ?? 'clear']
+    const [ra, rb] = model.update(
+      [ratings[a] ?? model.initial(), ratings[b] ?? model.initial()],
+      [{ a: 0, b: 1, scoreA: vote.draw ? 0.5 : 1, weight }],
+      config.kSwiss
+    )
+    ratings[a] = ra!
+    ratings[b] = rb!
+  }
+  return ratings
+}
+
+/**
+ * Starting ratings of `names` from a saved run or the vote log. Null when the run is gone
+ * or none of the archetypes has a past preference.
+ */
+export function buildRatingSeed (
+  request: RatingSeedRequest,
+  names: string[],
+  config: TournamentConfig
+): RatingSeed | null {
+  const { source, decay } = request
+  let ratings: Record<string, Rating> | null
+  if (source.kind === 'run') {
+    const run = loadRun(source.runId)
+    ratings = run ? ratingsFromRun(run, names, config, decay) : null
+  } else {
+    ratings = ratingsFromVotes(loadPersonalRanking()?.votes ?? [], names, config, decay)
+  }
+  if (!ratings || !Object.keys(ratings).length) return null
+  return { source, decay, ratings }
+}
+
+/** Format with Phase 1 shortened or skipped, as asked for a seeded run (a round robin has no Phase 1). */
+export function seededConfig (config: TournamentConfig, phase1: SeededPhase1): TournamentConfig {
+  if (phase1 === 'full' || config.finalPhase === 'round-robin') return config
+  return { ...config, coverageRoundCount: phase1 === 'skip' ? 0 : Math.min(config.coverageRoundCount, 1) }
+}
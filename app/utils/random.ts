@@ -0,0 +1,71 @@
+/**
+ * Randomness of the app. Everything that shapes a run (groups, pairings) draws from
+ * the run seed through these helpers, so a seed and an archetype list always give the same run.
+ */
+
+/** Mulberry32 PRNG: returns a generator of floats in [0, 1) for a 32-bit seed. */
+export function mulberry32 (seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Independent 32-bit seed for a part of the run (e.g. `deriveSeed(seed, 'phase2', round)`). */
+export function deriveSeed (seed: number, ...parts: (string | number)[]): number {
+  // FNV-1a over the labels, then murmur3 finalizer for avalanche
+  let h = ((seed >>> 0) ^ 0x811c9dc5) >>> 0
+  for (const part of parts) {
+    const label = `|${part}`
+    for (let i = 0; i < label.length; i++) h = Math.imul(h ^ label.charCodeAt(i), 0x01000193)
+  }
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+/**
+ * Seeded shuffle. Each item's place depends only on the seed and the item itself:
+ * the input order does not matter, and removing an item (e.g. an archetype dropped
+ * because its images failed) leaves the others in the same order.
+ */
+export function seededShuffle<T> (arr: T[], seed: number): T[] {
+  return arr
+    .map(item => ({ item, key: mulberry32(deriveSeed(seed, String(item)))() }))
+    .sort((a, b) => a.key - b.key)
+    .map(k => k.item)
+}
+
+/** 32-bit values from the platform CSPRNG. */
+function randomValues (count: number): Uint32Array {
+  return globalThis.crypto.getRandomValues(new Uint32Array(count))
+}
+
+/** Fresh seed for a new run (unsigned 32-bit). */
+export function randomSeed (): number {
+  return randomValues(1)[0]!
+}
+
+/** Random v4 UUID (works outside secure contexts, unlike `crypto.randomUUID`). */
+export function uuid (): string {
+  const bytes = new Uint8Array(randomValues(4).buffer)
+  bytes[6] = (bytes[6]! & 0x0f) | 0x40
+  bytes[8] = (bytes[8]! & 0x3f) | 0x80
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/** Parses a seed typed by the user (unsigned 32-bit integer), null if invalid. */
+export function parseSeed (text: string): number | null {
+  const trimmed = text.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const seed = Number(trimmed)
+  return seed <= 0xffffffff ? seed : null
+}
@@ -0,0 +1,89 @@
+import type { TournamentState } from '~/types/tournament'
+import { AUDIT_MAX_FINALISTS, LUCKY_WIN_SHARE } from '~/types/tournament'
+import { getRatingModel } from '~/utils/ratingModel'
+import { getHeadToHead, type HeadToHeadRecord } from '~/utils/headToHead'
+import { getFullRanking } from '~/utils/rankingExport'
+
+/** Archetype whose rating rests on its only group win. */
+export interface LuckyWin {
+  name: string
+  /** Rating gained by that win */
+  winDelta: number
+  /** Rating gained over the whole run */
+  netGain: number
+  /** Group it won: winner first */
+  match: string[]
+}
+
+export interface RankingAudit {
+  /** Archetypes that reached the last phase, best first */
+  finalists: string[]
+  /** `matrix[i][j]`: record of finalists[i] against finalists[j] (null = never met) */
+  matrix: (HeadToHeadRecord | null)[][]
+  /** Intransitive triples: each one beat the next and the last beat the first */
+  cycles: [string, string, string][]
+  luckyWins: LuckyWin[]
+}
+
+/** Finalists of the run: archetypes that were not eliminated, in ranking order. */
+function getFinalists (state: TournamentState): string[] {
+  return getFullRanking(state)
+    .filter(row => row.eliminatedIn == null)
+    .slice(0, AUDIT_MAX_FINALISTS)
+    .map(row => row.name)
+}
+
+/**
+ * Preference cycles A>B>C>A between finalists. A beats B when it won more
+ * of their meetings; pairs that never met (or split evenly) count as neither.
+ */
+function findCycles (names: string[], beats: (a: string, b: string) => boolean): [string, string, string][] {
+  const cycles: [string, string, string][] = []
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      for (let k = j + 1; k < names.length; k++) {
+        const [a, b, c] = [names[i]!, names[j]!, names[k]!]
+        if (beats(a, b) && beats(b, c) && beats(c, a)) cycles.push([a, b, c])
+        else if (beats(a, c) && beats(c, b) && beats(b, a)) cycles.push([a, c, b])
+      }
+    }
+  }
+  return cycles
+}
+
+/**
+ * Finalists with a single group win (phases 1-2) that is worth at least
+ * LUCKY_WIN_SHARE of everything they gained in the run.
+ */
+function findLuckyWins (state: TournamentState, finalists: string[]): LuckyWin[] {
+  const initialElo = getRatingModel(state.config.ratingModel).initial().elo
+  const out: LuckyWin[] = []
+  for (const name of finalists) {
+    const groupWins = state.history.filter(e => e.winner === name && (e.phase === 'phase1' || e.phase === 'phase2'))
+    if (groupWins.length !== 1) continue
+    const win = groupWins[0]!
+    const winDelta = win.eloDelta?.find(d => d.name === name)?.delta ?? 0
+    const netGain = state.archetypes[name]!.elo - initialElo
+    if (winDelta > 0 && netGain > 0 && winDelta >= LUCKY_WIN_SHARE * netGain) {
+      out.push({ name, winDelta: Math.round(winDelta), netGain: Math.round(netGain), match: [name, ...(win.losers ?? [])] })
+    }
+  }
+  return out
+}
+
+/** Head-to-head matrix of the finalists, preference cycles and rankings resting on one lucky win. */
+export function getRankingAudit (state: TournamentState): RankingAudit {
+  const finalists = getFinalists(state)
+  const h2h = getHeadToHead(state.history)
+  const record = (a: string, b: string) => h2h[a]?.[b] ?? null
+  const beats = (a: string, b: string) => {
+    const r = record(a, b)
+    return r != null && r.wins > r.losses
+  }
+  return {
+    finalists,
+    matrix: finalists.map(a => finalists.map(b => (a === b ? null : record(a, b)))),
+    cycles: findCycles(finalists, beats),
+    luckyWins: findLuckyWins(state, finalists)
+  }
+}
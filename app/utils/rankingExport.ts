@@ -0,0 +1,166 @@
+import type { TournamentState, PoolPhase, ExtraPolicy } from '~/types/tournament'
+import { getBracketStandings } from '~/utils/bracket'
+import { getSwissPlacement } from '~/utils/swissStandings'
+import { getRoundRobinPlacement } from '~/utils/roundRobin'
+import { getHeadToHead } from '~/utils/headToHead'
+import { escapeCsv, downloadTextFile } from '~/utils/csv'
+
+/** Pool phases in play order (phase 3 and bracket are alternative final phases; a round robin is played alone). */
+const POOL_PHASES: PoolPhase[] = ['phase1', 'phase2', 'phase3', 'bracket', 'roundRobin']
+
+/** One archetype of the full ranking export. */
+export interface RankingRow {
+  rank: number
+  name: string
+  elo: number
+  /** Rating deviation (Glicko-2 runs only) */
+  rd?: number
+  wins: number
+  losses: number
+  draws: number
+  matchesPlayed: number
+  /** Last pool the archetype played in */
+  finalPool: PoolPhase
+  /** Phase it was cut in (null = reached the final pool of the run so far) */
+  eliminatedIn: PoolPhase | null
+  dominantAttribute?: string
+  dominantRace?: string
+  extraPolicy?: ExtraPolicy
+  representativeCards: { id: number; name?: string }[]
+  /** Record against each opponent met (`strongWins` / `slightWins`: wins by a strong or slight preference) */
+  headToHead: { opponent: string; wins: number; losses: number; draws?: number; strongWins?: number; slightWins?: number }[]
+}
+
+/**
+ * Pools of the phases reached so far. Older saves without `phasePools`
+ * only know the full pool and the current phase pool.
+ */
+function reachedPools (state: TournamentState): Partial<Record<PoolPhase, string[]>> {
+  const pools: Partial<Record<PoolPhase, string[]>> = { phase1: state.remainingNames, ...state.phasePools }
+  if (state.phase !== 'finished') {
+    // Pools of later phases may be left over from an undone transition
+    const current = POOL_PHASES.indexOf(state.phase)
+    for (const p of POOL_PHASES.slice(current + 1)) delete pools[p]
+    pools[state.phase] = state.phasePool
+  } else if (!state.phasePools) {
+    pools[state.bracket ? 'bracket' : 'phase3'] = state.phasePool
+  }
+  return pools
+}
+
+/**
+ * Every archetype of the run, best first: deeper final pool first, then bracket
+ * placement (once decided), Swiss standings or round-robin table, then rating.
+ */
+export function getFullRanking (state: TournamentState): RankingRow[] {
+  const pools = reachedPools(state)
+  const lastReached = POOL_PHASES.filter(p => pools[p]?.length).at(-1) ?? 'phase1'
+  const poolSets = POOL_PHASES.map(p => new Set(pools[p] ?? []))
+  const h2h = getHeadToHead(state.history)
+  const placement = state.bracket?.champion ? getBracketStandings(state.bracket) : getSwissPlacement(state) ?? getRoundRobinPlacement(state) ?? []
+
+  const rows = state.remainingNames
+    .filter(name => state.archetypes[name])
+    .map((name) => {
+      const entry = state.archetypes[name]!
+      const depth = Math.max(0, ...POOL_PHASES.map((_, i) => poolSets[i]!.has(name) ? i : -1))
+      const finalPool = POOL_PHASES[depth]!
+      const row: RankingRow = {
+        rank: 0,
+        name,
+        elo: Math.round(entry.elo),
+        ...(entry.rd != null ? { rd: Math.round(entry.rd) } : {}),
+        wins: entry.wins,
+        losses: entry.losses,
+        draws: entry.draws ?? 0,
+        matchesPlayed: entry.wins + entry.losses + (entry.draws ?? 0),
+        finalPool,
+        eliminatedIn: finalPool === lastReached ? null : finalPool,
+        dominantAttribute: entry.dominantAttribute,
+        dominantRace: entry.dominantRace,
+        extraPolicy: entry.extraPolicy,
+        representativeCards: (entry.representativeCards ?? []).map(c => ({ id: c.id, name: c.name })),
+        headToHead: Object.entries(h2h[name] ?? {})
+          .map(([opponent, r]) => ({
+            opponent,
+            wins: r.wins,
+            losses: r.losses,
+            ...(r.draws ? { draws: r.draws } : {}),
+            ...(r.strongWins ? { strongWins: r.strongWins } : {}),
+            ...(r.slightWins ? { slightWins: r.slightWins } : {})
+          }))
+          .sort((a, b) => a.opponent.localeCompare(b.opponent))
+      }
+      return { depth, row }
+    })
+
+  const placed = (name: string) => {
+    const i = placement.indexOf(name)
+    return i < 0 ? Infinity : i
+  }
+  return rows
+    .sort((a, b) => (b.depth - a.depth) ||
+      (placed(a.row.name) - placed(b.row.name)) ||
+      (state.archetypes[b.row.name]!.elo - state.archetypes[a.row.name]!.elo))
+    .map(({ row }, i) => ({ ...row, rank: i + 1 }))
+}
+
+const CSV_HEADERS = [
+  'Rank', 'Archetype', 'Elo', 'Uncertainty', 'Wins', 'Losses', 'Draws', 'Matches Played',
+  'Final Pool', 'Eliminated In', 'Attribute', 'Race', 'Extra Policy',
+  'Representative Card IDs', 'Representative Card Names', 'Head-to-Head'
+].join(',')
+
+/** " (2 strong, 1 slight)" after a head-to-head record with weighted wins. */
+function strengthNote (h: RankingRow['headToHead'][number]): string {
+  const parts = [h.strongWins ? `${h.strongWins} strong` : '', h.slightWins ? `${h.slightWins} slight` : ''].filter(Boolean)
+  return parts.length ? ` (${parts.join(', ')})` : ''
+}
+
+/** Generates UTF-8 CSV of the full ranking (lists are joined with "; "). */
+export function exportRankingCsv (state: TournamentState): string {
+  const rows = getFullRanking(state).map(r => [
+    r.rank,
+    escapeCsv(r.name),
+    r.elo,
+    r.rd ?? '',
+    r.wins,
+    r.losses,
+    r.draws,
+    r.matchesPlayed,
+    r.finalPool,
+    r.eliminatedIn ?? '',
+    escapeCsv(r.dominantAttribute ?? ''),
+    escapeCsv(r.dominantRace ?? ''),
+    r.extraPolicy ?? '',
+    r.representativeCards.map(c => c.id).join('; '),
+    escapeCsv(r.representativeCards.map(c => c.name ?? '').join('; ')),
+    escapeCsv(r.headToHead.map(h => `${h.opponent} ${h.wins}-${h.losses}${h.draws ? `-${h.draws}` : ''}${strengthNote(h)}`).join('; '))
+  ].join(','))
+  return '\uFEFF' + [CSV_HEADERS, ...rows].join('\r\n')
+}
+
+/** Structured JSON export of the run: format, progress and the full ranking. */
+export function exportRankingJson (state: TournamentState): string {
+  return JSON.stringify({
+    runId: state.runId,
+    createdAt: state.createdAt,
+    exportedAt: new Date().toISOString(),
+    seed: state.seed,
+    config: state.config,
+    phase: state.phase,
+    choices: state.history.length,
+    champion: state.bracket?.champion ?? null,
+    archetypes: getFullRanking(state)
+  }, null, 2)
+}
+
+/** Triggers download of the full ranking CSV. */
+export function downloadRankingCsv (state: TournamentState): void {
+  downloadTextFile(exportRankingCsv(state), `yugidex-ranking-${state.runId.slice(0, 8)}.csv`, 'text/csv;charset=utf-8')
+}
+
+/** Triggers download of the full ranking JSON. */
+export function downloadRankingJson (state: TournamentState): void {
+  downloadTextFile(exportRankingJson(state), `yugidex-ranking-${state.runId.slice(0, 8)}.json`, 'application/json')
+}
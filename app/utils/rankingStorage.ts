@@ -1,13 +1,8 @@
 import type { PersonalRankingState, Vote } from '~/types/ranking'
+import { uuid } from '~/utils/random'
 
 const STORAGE_KEY = 'yugidex-ranking'
 
-function uuid (): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/x/g, () =>
-    ((Math.random() * 16) | 0).toString(16)
-  )
-}
-
 /** Returns a persistent userId (created once locally). */
 export function getOrCreateUserId (): string {
   if (import.meta.server) return ''
@@ -44,18 +39,54 @@ export function loadPersonalRanking (): PersonalRankingState | null {
   }
 }
 
-/** Saves a vote (A preferred over B) and persists. */
-export function saveVote (winnerId: string, loserId: string): void {
+/** Saves a vote (A preferred over B, or a draw, with its run, strength and screen slots) and persists. */
+export function saveVote (winnerId: string, loserId: string, details: Omit<Vote, 'winnerId' | 'loserId' | 'timestamp'> = {}): void {
   if (import.meta.server) return
   const state = loadPersonalRanking()
   if (!state) return
   const vote: Vote = {
     winnerId,
     loserId,
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    ...details
   }
   state.votes = [...state.votes, vote]
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
   } catch {}
 }
+
+/** Runs left out of the all-time ranking. */
+export function getExcludedRuns (): string[] {
+  return loadPersonalRanking()?.excludedRuns ?? []
+}
+
+/** Leaves a run's votes out of the all-time ranking, or brings them back. */
+export function setRunExcluded (runId: string, excluded: boolean): void {
+  if (import.meta.server) return
+  getOrCreateUserId()
+  const state = loadPersonalRanking()
+  if (!state) return
+  const rest = (state.excludedRuns ?? []).filter(id => id !== runId)
+  state.excludedRuns = excluded ? [...rest, runId] : rest
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch {}
+}
+
+/** Adds imported votes to the local log (votes already present are skipped). Returns the count added. */
+export function importVotes (votes: Vote[]): number {
+  if (import.meta.server) return 0
+  getOrCreateUserId()
+  const state = loadPersonalRanking()
+  if (!state) return 0
+  const key = (v: Vote) => `${v.winnerId}|${v.loserId}|${v.timestamp}`
+  const known = new Set(state.votes.map(key))
+  const added = votes.filter(v => !known.has(key(v)))
+  if (!added.length) return 0
+  state.votes = [...state.votes, ...added]
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+  } catch {}
+  return added.length
+}
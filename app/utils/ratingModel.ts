@@ -0,0 +1,189 @@
+import type { Rating, RatingModelId } from '~/types/tournament'
+import { INITIAL_ELO, K_GROUP_FULL } from '~/types/tournament'
+import { expectedScore } from '~/utils/elo'
+
+/** A pairwise result inside a rating period: score of player `a` against player `b`. */
+export interface RatedGame {
+  /** Index of the first player in the period's player list */
+  a: number
+  /** Index of the second player */
+  b: number
+  /** 1 = a wins, 0.5 = draw, 0 = b wins */
+  scoreA: number
+  /** Likelihood weight of this result (1 = normal) */
+  weight?: number
+  /** Rating points added to `a` in the expected score (screen position correction) */
+  advantage?: number
+}
+
+/**
+ * Rating model used by the tournament state. Each choice is one rating period:
+ * all games are evaluated against the ratings from before the period.
+ */
+export interface RatingModel {
+  id: RatingModelId
+  /** Rating of an archetype that has not played yet. */
+  initial (): Rating
+  /** Expected score of A against B (win probability). */
+  expected (a: Rating, b: Rating): number
+  /** Applies one rating period. `k` is the phase K-factor; returns new ratings (same order). */
+  update (players: Rating[], games: RatedGame[], k: number): Rating[]
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// Elo
+// ═══════════════════════════════════════════════════════════════════════
+
+/** Plain Elo with rounded ratings: each player moves by Σ K·w·(score − expected). */
+export const eloModel: RatingModel = {
+  id: 'elo',
+  initial: () => ({ elo: INITIAL_ELO }),
+  expected: (a, b) => expectedScore(a.elo, b.elo),
+  update (players, games, k) {
+    const deltas = players.map(() => 0)
+    for (const g of games) {
+      const pa = players[g.a]!
+      const pb = players[g.b]!
+      const w = g.weight ?? 1
+      const adv = g.advantage ?? 0
+      deltas[g.a]! += k * w * (g.scoreA - expectedScore(pa.elo + adv, pb.elo))
+      deltas[g.b]! += k * w * ((1 - g.scoreA) - expectedScore(pb.elo, pa.elo + adv))
+    }
+    return players.map((p, i) => ({ ...p, elo: Math.round(p.elo + deltas[i]!) }))
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// Glicko-2 (Glickman, 2012), centered on INITIAL_ELO instead of 1500
+// ═══════════════════════════════════════════════════════════════════════
+
+/** Rating deviation of a newcomer */
+export const GLICKO_INITIAL_RD = 350
+/** Volatility of a newcomer */
+export const GLICKO_INITIAL_VOLATILITY = 0.06
+/** System constant: constrains volatility changes */
+const GLICKO_TAU = 0.5
+/** Glicko-2 scale factor (rating points per internal unit) */
+const GLICKO_SCALE = 173.7178
+const GLICKO_EPSILON = 0.000001
+/** Smallest RD kept, so a long run never freezes a rating completely */
+const GLICKO_MIN_RD = 30
+
+function g (phi: number): number {
+  return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI))
+}
+
+function glickoExpected (mu: number, muJ: number, phiJ: number): number {
+  return 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)))
+}
+
+/** New volatility (step 5 of the paper, Illinois algorithm). */
+function nextVolatility (phi: number, sigma: number, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma)
+  const f = (x: number) => {
+    const ex = Math.exp(x)
+    const d = phi * phi + v + ex
+    return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (GLICKO_TAU * GLICKO_TAU)
+  }
+  let A = a
+  let B: number
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v)
+  } else {
+    let kk = 1
+    while (f(a - kk * GLICKO_TAU) < 0) kk++
+    B = a - kk * GLICKO_TAU
+  }
+  let fA = f(A)
+  let fB = f(B)
+  for (let iter = 0; Math.abs(B - A) > GLICKO_EPSILON && iter < 100; iter++) {
+    const C = A + (A - B) * fA / (fB - fA)
+    const fC = f(C)
+    if (fC * fB <= 0) {
+      A = B
+      fA = fB
+    } else {
+      fA = fA / 2
+    }
+    B = C
+    fB = fC
+  }
+  return Math.exp(A / 2)
+}
+
+/**
+ * Glicko-2: keeps a rating deviation (RD) per archetype, so a rating built on few
+ * or inconsistent results stays visibly uncertain. K is turned into a likelihood
+ * weight relative to K_GROUP_FULL (dampened phases count less).
+ */
+export const glicko2Model: RatingModel = {
+  id: 'glicko2',
+  initial: () => ({ elo: INITIAL_ELO, rd: GLICKO_INITIAL_RD, volatility: GLICKO_INITIAL_VOLATILITY }),
+  expected (a, b) {
+    const phiA = (a.rd ?? GLICKO_INITIAL_RD) / GLICKO_SCALE
+    const phiB = (b.rd ?? GLICKO_INITIAL_RD) / GLICKO_SCALE
+    const combined = Math.sqrt(phiA * phiA + phiB * phiB)
+    return glickoExpected((a.elo - INITIAL_ELO) / GLICKO_SCALE, (b.elo - INITIAL_ELO) / GLICKO_SCALE, combined)
+  },
+  update (players, games, k) {
+    const scale = k / K_GROUP_FULL
+    const internal = players.map(p => ({
+      mu: (p.elo - INITIAL_ELO) / GLICKO_SCALE,
+      phi: (p.rd ?? GLICKO_INITIAL_RD) / GLICKO_SCALE,
+      sigma: p.volatility ?? GLICKO_INITIAL_VOLATILITY
+    }))
+    // Per player: Σ w·g²·E(1−E) and Σ w·g·(s − E)
+    const info = players.map(() => 0)
+    const score = players.map(() => 0)
+    const played = players.map(() => false)
+    const add = (i: number, j: number, s: number, w: number, offset: number) => {
+      const gj = g(internal[j]!.phi)
+      const e = glickoExpected(internal[i]!.mu + offset, internal[j]!.mu, internal[j]!.phi)
+      info[i]! += w * gj * gj * e * (1 - e)
+      score[i]! += w * gj * (s - e)
+      played[i] = true
+    }
+    for (const game of games) {
+      const w = (game.weight ?? 1) * scale
+      const offset = (game.advantage ?? 0) / GLICKO_SCALE
+      add(game.a, game.b, game.scoreA, w, offset)
+      add(game.b, game.a, 1 - game.scoreA, w, -offset)
+    }
+    return players.map((p, i) => {
+      if (!played[i] || info[i]! <= 0) return { ...p }
+      const { mu, phi, sigma } = internal[i]!
+      const v = 1 / info[i]!
+      const delta = v * score[i]!
+      const sigmaNext = nextVolatility(phi, sigma, v, delta)
+      const phiStar = Math.sqrt(phi * phi + sigmaNext * sigmaNext)
+      const phiNext = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+      const muNext = mu + phiNext * phiNext * score[i]!
+      return {
+        ...p,
+        elo: INITIAL_ELO + muNext * GLICKO_SCALE,
+        rd: Math.max(GLICKO_MIN_RD, phiNext * GLICKO_SCALE),
+        volatility: sigmaNext
+      }
+    })
+  }
+}
+
+/**
+ * Glicko-2 rating after a period without games (step 6 of the paper): the deviation grows
+ * with the volatility, up to a newcomer's, so an archetype left aside gets less certain.
+ */
+export function glickoIdlePeriod (rating: Rating): Rating {
+  const phi = (rating.rd ?? GLICKO_INITIAL_RD) / GLICKO_SCALE
+  const sigma = rating.volatility ?? GLICKO_INITIAL_VOLATILITY
+  return { ...rating, rd: Math.min(GLICKO_INITIAL_RD, Math.sqrt(phi * phi + sigma * sigma) * GLICKO_SCALE) }
+}
+
+const MODELS: Record<RatingModelId, RatingModel> = {
+  elo: eloModel,
+  glicko2: glicko2Model
+}
+
+/** Rating model of a run (Elo when unknown). */
+export function getRatingModel (id: RatingModelId | undefined): RatingModel {
+  return (id && MODELS[id]) || eloModel
+}
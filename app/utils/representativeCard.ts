@@ -524,10 +524,10 @@ export function pickRepresentativeCards (cards: YgoCard[], archetypeName: string
   const { main, extra } = pick5Main5Extra(cards, archetypeName)
   const result: RepresentativeCard[] = []
   for (const c of extra) {
-    result.push({ id: c.id, imageUrl: getCardImageUrl(c), category: 'extra', displayType: getCardDisplayType(c) })
+    result.push({ id: c.id, name: c.name, imageUrl: getCardImageUrl(c), category: 'extra', displayType: getCardDisplayType(c) })
   }
   for (const c of main) {
-    result.push({ id: c.id, imageUrl: getCardImageUrl(c), category: 'main', displayType: getCardDisplayType(c) })
+    result.push({ id: c.id, name: c.name, imageUrl: getCardImageUrl(c), category: 'main', displayType: getCardDisplayType(c) })
   }
   return result
 }
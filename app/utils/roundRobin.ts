@@ -0,0 +1,92 @@
+import type { TournamentState } from '~/types/tournament'
+import { seededShuffle, deriveSeed } from '~/utils/random'
+
+/** A line of the round-robin table. */
+export interface RoundRobinStanding {
+  rank: number
+  name: string
+  wins: number
+  losses: number
+  /** Duels played so far (out of pool size − 1) */
+  played: number
+  elo: number
+}
+
+/** Rounds needed for every pair of `size` archetypes to meet once. */
+export function roundRobinRoundCount (size: number): number {
+  return size % 2 ? size : size - 1
+}
+
+/**
+ * Balanced round-robin schedule (circle method): every pair meets exactly once and each archetype
+ * plays at most once per round (one sits out each round on an odd pool). The seed decides who meets
+ * whom when; each round starts with a duel whose archetypes did not just play the last duel of the
+ * round before, so nobody appears twice in a row.
+ */
+export function buildRoundRobinSchedule (pool: string[], seed: number): [string, string][][] {
+  const players: (string | null)[] = seededShuffle([...pool].sort(), deriveSeed(seed, 'roundRobin'))
+  if (players.length % 2) players.push(null)
+  const n = players.length
+  const rounds: [string, string][][] = []
+  for (let r = 0; r < n - 1; r++) {
+    const pairs: [string, string][] = []
+    for (let i = 0; i < n / 2; i++) {
+      const a = players[i]
+      const b = players[n - 1 - i]
+      // Sides alternate from round to round
+      if (a && b) pairs.push(r % 2 ? [b, a] : [a, b])
+    }
+    rounds.push(pairs)
+    // Circle method: the first player stays, the others rotate by one
+    players.splice(1, 0, players.pop()!)
+  }
+  for (let r = 1; r < rounds.length; r++) {
+    const last = rounds[r - 1]!.at(-1)
+    const pairs = rounds[r]!
+    const start = pairs.findIndex(pair => !pair.some(name => last?.includes(name)))
+    if (start > 0) rounds[r] = [...pairs.slice(start), ...pairs.slice(0, start)]
+  }
+  return rounds
+}
+
+/** Round-robin table, ranked by wins, then the duels among the tied archetypes, then rating. */
+export function getRoundRobinStandings (state: TournamentState): RoundRobinStanding[] {
+  const pool = state.phasePools?.roundRobin ?? state.phasePool
+  const beaten = new Map<string, string[]>(pool.map(name => [name, []]))
+  const losses = new Map<string, number>(pool.map(name => [name, 0]))
+  for (const entry of state.history) {
+    if (entry.phase !== 'roundRobin' || !entry.loser) continue
+    beaten.get(entry.winner)?.push(entry.loser)
+    if (losses.has(entry.loser)) losses.set(entry.loser, losses.get(entry.loser)! + 1)
+  }
+
+  const rows = pool
+    .filter(name => state.archetypes[name])
+    .map(name => ({
+      name,
+      wins: beaten.get(name)!.length,
+      losses: losses.get(name)!,
+      played: beaten.get(name)!.length + losses.get(name)!,
+      elo: Math.round(state.archetypes[name]!.elo)
+    }))
+    .sort((a, b) => b.wins - a.wins)
+
+  const ordered: typeof rows = []
+  for (let start = 0; start < rows.length;) {
+    let end = start + 1
+    while (end < rows.length && rows[end]!.wins === rows[start]!.wins) end++
+    const tied = rows.slice(start, end)
+    const names = new Set(tied.map(r => r.name))
+    const headToHead = new Map(tied.map(r => [r.name, beaten.get(r.name)!.filter(n => names.has(n)).length]))
+    tied.sort((a, b) => headToHead.get(b.name)! - headToHead.get(a.name)! || b.elo - a.elo || a.name.localeCompare(b.name))
+    ordered.push(...tied)
+    start = end
+  }
+  return ordered.map((row, i) => ({ ...row, rank: i + 1 }))
+}
+
+/** Final order of a round-robin run (its table), or null for the other formats. */
+export function getRoundRobinPlacement (state: TournamentState): string[] | null {
+  if (!state.phasePools?.roundRobin || (state.phase !== 'roundRobin' && state.phase !== 'finished')) return null
+  return getRoundRobinStandings(state).map(s => s.name)
+}
@@ -0,0 +1,186 @@
+import type { TournamentState, TournamentConfig, TournamentPhase } from '~/types/tournament'
+import { migrateState, STATE_SCHEMA_VERSION } from '~/utils/stateMigrations'
+import { getTop10 } from '~/utils/csv'
+import { uuid } from '~/utils/random'
+
+/** Index of the saved runs (summaries only). */
+const INDEX_KEY = 'yugidex-runs'
+/** runId of the run shown on the tournament page. */
+const ACTIVE_KEY = 'yugidex-active-run'
+/** Full state of one run. */
+const RUN_KEY_PREFIX = 'yugidex-run:'
+/** Where a run that could not be migrated is moved (kept for manual recovery). */
+const UNREADABLE_KEY_PREFIX = 'yugidex-run-unreadable:'
+
+/** What the history page needs to know about a run without loading it. */
+export interface RunSummary {
+  runId: string
+  createdAt: string
+  updatedAt: string
+  seed: number
+  config: TournamentConfig
+  phase: TournamentPhase
+  /** Choices made so far */
+  choices: number
+  /** Archetypes in the run */
+  poolSize: number
+  /** Current Top 10 (final once the run is finished) */
+  top10: { name: string; elo: number }[]
+  champion: string | null
+  /** Run this one was copied from */
+  duplicatedFrom?: string
+}
+
+function readIndex (): RunSummary[] {
+  try {
+    const raw = localStorage.getItem(INDEX_KEY)
+    const list = raw ? JSON.parse(raw) as RunSummary[] : []
+    return Array.isArray(list) ? list : []
+  } catch {
+    return []
+  }
+}
+
+function writeIndex (list: RunSummary[]): void {
+  try {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(list))
+  } catch {}
+}
+
+function summarize (state: TournamentState, previous?: RunSummary): RunSummary {
+  return {
+    runId: state.runId,
+    createdAt: state.createdAt,
+    updatedAt: new Date().toISOString(),
+    seed: state.seed,
+    config: state.config,
+    phase: state.phase,
+    choices: state.history.length,
+    poolSize: state.remainingNames.length,
+    top10: getTop10(state).map(r => ({ name: r.name, elo: r.elo })),
+    champion: state.bracket?.champion ?? null,
+    ...(previous?.duplicatedFrom ? { duplicatedFrom: previous.duplicatedFrom } : {})
+  }
+}
+
+/** Saved runs, most recently played first. */
+export function listRuns (): RunSummary[] {
+  if (!import.meta.client) return []
+  return readIndex().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Saves a run in its slot and refreshes its summary. Returns false when the run could not
+ * be written (storage full): its summary is then left as it was.
+ */
+export function saveRun (state: TournamentState): boolean {
+  if (!import.meta.client) return true
+  try {
+    localStorage.setItem(RUN_KEY_PREFIX + state.runId, JSON.stringify({ ...state, schemaVersion: STATE_SCHEMA_VERSION }))
+  } catch {
+    return false
+  }
+  const index = readIndex()
+  const i = index.findIndex(r => r.runId === state.runId)
+  const summary = summarize(state, index[i])
+  if (i >= 0) index[i] = summary
+  else index.push(summary)
+  writeIndex(index)
+  return true
+}
+
+/**
+ * Unfinished runs other than `keepId`, least recently played first: what may be deleted,
+ * once the user agrees, to make room when storage is full. Finished runs are never offered.
+ */
+export function listRunsToFree (keepId: string): RunSummary[] {
+  return listRuns().filter(r => r.runId !== keepId && r.phase !== 'finished').reverse()
+}
+
+/**
+ * Parses and migrates a persisted run. Unusable data is moved aside under
+ * `unreadableKey` (when given) instead of being dropped.
+ */
+export function readPersistedRun (raw: string, unreadableKey?: string): TournamentState | null {
+  let result: ReturnType<typeof migrateState>
+  try {
+    result = migrateState(JSON.parse(raw))
+  } catch {
+    result = { ok: false, error: 'invalid JSON' }
+  }
+  if (result.ok) return result.state
+  if (unreadableKey) {
+    try {
+      localStorage.setItem(unreadableKey, raw)
+    } catch {}
+  }
+  return null
+}
+
+/** Loads a saved run (null if missing or unreadable; an unreadable run leaves the index). */
+export function loadRun (runId: string): TournamentState | null {
+  if (!import.meta.client) return null
+  try {
+    const raw = localStorage.getItem(RUN_KEY_PREFIX + runId)
+    if (!raw) return null
+    const state = readPersistedRun(raw, UNREADABLE_KEY_PREFIX + runId)
+    if (!state) deleteRun(runId)
+    return state
+  } catch {
+    return null
+  }
+}
+
+/** Removes a run and its summary (and the active pointer if it was the active run). */
+export function deleteRun (runId: string): void {
+  if (!import.meta.client) return
+  try {
+    localStorage.removeItem(RUN_KEY_PREFIX + runId)
+    if (localStorage.getItem(ACTIVE_KEY) === runId) localStorage.removeItem(ACTIVE_KEY)
+  } catch {}
+  writeIndex(readIndex().filter(r => r.runId !== runId))
+}
+
+/** Copies a run under a new runId (same seed, format and choices). Returns the copy's id. */
+export function duplicateRun (runId: string): string | null {
+  const state = loadRun(runId)
+  if (!state) return null
+  const copyId = uuid()
+  const createdAt = new Date().toISOString()
+  const copiedFrom = [...(state.copiedFrom ?? []), { runId, at: createdAt }]
+  const [start, ...rest] = state.events ?? []
+  const copy: TournamentState = {
+    ...state,
+    runId: copyId,
+    createdAt,
+    copiedFrom,
+    // The log starts the copy itself, so that replaying it gives the copy
+    ...(start?.type === 'start' ? { events: [{ ...start, runId: copyId, createdAt, copiedFrom }, ...rest] } : {})
+  }
+  saveRun(copy)
+  const index = readIndex()
+  const entry = index.find(r => r.runId === copy.runId)
+  if (entry) {
+    entry.duplicatedFrom = runId
+    writeIndex(index)
+  }
+  return copy.runId
+}
+
+export function getActiveRunId (): string | null {
+  if (!import.meta.client) return null
+  try {
+    return localStorage.getItem(ACTIVE_KEY)
+  } catch {
+    return null
+  }
+}
+
+/** Sets the run shown on the tournament page (null = start screen, the run stays saved). */
+export function setActiveRunId (runId: string | null): void {
+  if (!import.meta.client) return
+  try {
+    if (runId) localStorage.setItem(ACTIVE_KEY, runId)
+    else localStorage.removeItem(ACTIVE_KEY)
+  } catch {}
+}
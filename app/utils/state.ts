@@ -1,72 +1,210 @@
-import type { TournamentState, ArchetypeState } from '~/types/tournament'
-import {
-  INITIAL_ELO,
-  COVERAGE_ROUND_COUNT,
-  REFINEMENT_ROUND_COUNT,
-  REFINEMENT_POOL_FRACTION,
-  SWISS_POOL_SIZE,
-  SWISS_ROUND_COUNT,
-  K_GROUP_DAMPENED,
-  K_GROUP_FULL,
-  K_SWISS
-} from '~/types/tournament'
-import { applyElo, applyGroupElo } from '~/utils/elo'
-import { matchKey, buildCoverageGroups, buildEloProximityGroups, getNextMatchSwiss } from '~/utils/matchmaking'
-
-const STORAGE_KEY = 'yugidex-tournament'
-
-function uuid (): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/x/g, () =>
-    ((Math.random() * 16) | 0).toString(16)
-  )
-}
+import type { TournamentState, TournamentConfig, ArchetypeState, MatchResult, PhaseSnapshot, PoolPhase, Rating, RatingSeed, RepresentativeLoad, VoteStrength } from '~/types/tournament'
+import { DEFAULT_TOURNAMENT_CONFIG, VOTE_STRENGTH_WEIGHTS } from '~/types/tournament'
+import { getRatingModel, type RatingModel, type RatedGame } from '~/utils/ratingModel'
+import { matchKey, buildCoverageGroups, buildEloProximityGroups, buildSwissRound } from '~/utils/matchmaking'
+import { getConvergence } from '~/utils/convergence'
+import { STATE_SCHEMA_VERSION } from '~/utils/stateMigrations'
+import { saveRun, loadRun, readPersistedRun, getActiveRunId, setActiveRunId } from '~/utils/runStorage'
+import { deriveSeed, seededShuffle, uuid } from '~/utils/random'
+import { buildRoundRobinSchedule, roundRobinRoundCount } from '~/utils/roundRobin'
+import { getSlotOffsets } from '~/utils/positionBias'
+import { buildBracket, effectiveBracketSize, getNextBracketMatch, applyBracketResult, undoBracketResult } from '~/utils/bracket'
 
-/** Fisher-Yates shuffle with seed (for reproducibility). */
-export function seededShuffle<T> (arr: T[], seed: number): T[] {
-  const out = [...arr]
-  let s = seed
-  for (let i = out.length - 1; i > 0; i--) {
-    s = (s * 1103515245 + 12345) & 0x7fffffff
-    const j = s % (i + 1)
-    ;[out[i], out[j]] = [out[j]!, out[i]!]
-  }
-  return out
-}
+/** Single-slot save of older versions (moved into the run slots on load) */
+const LEGACY_STORAGE_KEY = 'yugidex-tournament'
+/** Where a single-slot save that could not be migrated is moved (kept for manual recovery). */
+const LEGACY_BACKUP_KEY = 'yugidex-tournament-unreadable'
 
 /**
  * Creates initial state and pre-computes groups for the first round of Phase 1.
+ * The groups depend only on the seed and the set of names (not their order).
+ * With a rating seed, archetypes start from those ratings; a format without
+ * coverage rounds then goes straight to the Phase 2 cut.
  */
 export function createInitialState (
   archetypeNames: string[],
-  seed: number
+  seed: number,
+  config: TournamentConfig = DEFAULT_TOURNAMENT_CONFIG,
+  ratingSeed?: RatingSeed
 ): TournamentState {
+  const model = getRatingModel(config.ratingModel)
   const archetypes: Record<string, ArchetypeState> = {}
   for (const name of archetypeNames) {
     archetypes[name] = {
-      elo: INITIAL_ELO,
+      ...model.initial(),
+      ...ratingSeed?.ratings[name],
       wins: 0,
       losses: 0
     }
   }
-  const pool = [...archetypeNames]
+  const pool = [...new Set(archetypeNames)].sort()
   const groups = buildCoverageGroups(pool, archetypes, seed)
-  return {
+  const state: TournamentState = {
+    schemaVersion: STATE_SCHEMA_VERSION,
     runId: uuid(),
     createdAt: new Date().toISOString(),
     seed,
+    config: { ...config },
     phase: 'phase1',
     archetypes,
     remainingNames: pool,
     matchesPlayed: [],
     currentMatch: null,
     round: 0,
-    initialPoolSize: archetypeNames.length,
+    initialPoolSize: pool.length,
+    ...(ratingSeed ? { ratingSeed } : {}),
     phaseRound: 0,
     groupsCompleted: 0,
     groupsTotal: groups.length,
     currentRoundGroups: groups,
-    phasePool: pool
+    phasePool: pool,
+    phasePools: { phase1: [...pool] },
+    history: [],
+    redoStack: []
+  }
+  if (config.finalPhase === 'round-robin') return startRoundRobin(state)
+  return config.coverageRoundCount > 0 ? state : advanceToNextPhaseRound(state)
+}
+
+/** Round-robin run: no group phases, the whole pool plays its first round straight away. */
+function startRoundRobin (state: TournamentState): TournamentState {
+  const pairs = buildRoundRobinSchedule(state.phasePool, state.seed)[0] ?? []
+  return {
+    ...state,
+    phase: 'roundRobin',
+    groupsTotal: pairs.length,
+    currentRoundGroups: pairs,
+    phasePools: { roundRobin: [...state.phasePool] }
+  }
+}
+
+/** Captures the round/phase structure before a choice that may advance it. */
+function takeSnapshot (state: TournamentState): PhaseSnapshot {
+  return {
+    phase: state.phase,
+    phaseRound: state.phaseRound,
+    groupsTotal: state.groupsTotal,
+    currentRoundGroups: state.currentRoundGroups,
+    phasePool: [...state.phasePool],
+    matchesPlayed: [...state.matchesPlayed],
+    bracket: state.bracket ?? null,
+    phasePools: { ...state.phasePools },
+    repechage: state.repechage ?? null,
+    swissByes: state.swissByes
+  }
+}
+
+/**
+ * Puts back the round/phase structure saved by `takeSnapshot`. Archetypes dropped since
+ * (no images) are left out of the restored pools, groups and pairings.
+ */
+function restoreSnapshot (state: TournamentState, snapshot: PhaseSnapshot): void {
+  const known = (name: string) => name in state.archetypes
+  const phasePools: TournamentState['phasePools'] = {}
+  for (const [phase, pool] of Object.entries(snapshot.phasePools ?? {}) as [PoolPhase, string[]][]) {
+    // The round-robin schedule is drawn from its starting pool: kept as drawn
+    phasePools[phase] = phase === 'roundRobin' ? pool : pool.filter(known)
+  }
+  Object.assign(state, {
+    ...snapshot,
+    phasePool: snapshot.phasePool.filter(known),
+    phasePools,
+    currentRoundGroups: snapshot.currentRoundGroups?.map(group => group.filter(known)) ?? null,
+    matchesPlayed: snapshot.matchesPlayed.filter(key => key.split('|').every(known)),
+    bracket: snapshot.bracket?.seeds.every(known) ? snapshot.bracket : null,
+    repechage: snapshot.repechage
+      ? { ...snapshot.repechage, qualified: snapshot.repechage.qualified.filter(known), candidates: snapshot.repechage.candidates.filter(known) }
+      : null
+  })
+}
+
+/** Match shown again by an undo, without the archetypes dropped since (null if fewer than 2 remain). */
+function restoredMatch (state: TournamentState, match: string[]): string[] | null {
+  const shown = match.filter(name => name in state.archetypes)
+  return shown.length >= 2 ? shown : null
+}
+
+/** Takes back a win or a loss; archetypes dropped since the choice are skipped. */
+function uncount (archetypes: Record<string, ArchetypeState>, name: string, key: 'wins' | 'losses'): void {
+  const entry = archetypes[name]
+  if (entry) archetypes[name] = { ...entry, [key]: Math.max(0, entry[key] - 1) }
+}
+
+/** Removes an archetype from state (no images = we delete it). */
+export function removeArchetypeFromState (
+  state: TournamentState,
+  archetypeName: string
+): TournamentState {
+  const next = { ...state, archetypes: { ...state.archetypes } }
+  delete next.archetypes[archetypeName]
+  next.remainingNames = state.remainingNames.filter(n => n !== archetypeName)
+  next.phasePool = state.phasePool.filter(n => n !== archetypeName)
+  if (state.phasePools) {
+    next.phasePools = Object.fromEntries(Object.entries(state.phasePools).map(([phase, pool]) =>
+      // The round-robin schedule is drawn from its starting pool: kept as drawn
+      [phase, phase === 'roundRobin' ? pool : pool.filter(n => n !== archetypeName)]))
+  }
+  if (state.repechage) {
+    next.repechage = {
+      ...state.repechage,
+      qualified: state.repechage.qualified.filter(n => n !== archetypeName),
+      candidates: state.repechage.candidates.filter(n => n !== archetypeName)
+    }
   }
+  if (state.currentMatch?.includes(archetypeName)) next.currentMatch = null
+  // Pre-computed groups are kept as drawn: dropped archetypes are filtered out when a group is shown
+  return next
+}
+
+/** Applies the result of a representative load to state (one archetype). */
+export function applyRepresentativeResult (
+  state: TournamentState,
+  archetypeName: string,
+  res: RepresentativeLoad
+): TournamentState {
+  if (!res?.representativeCards?.length) return removeArchetypeFromState(state, archetypeName)
+  const cur = res.representativeCards[res.representativeIndex ?? 0] ?? res.representativeCards[0]!
+  const dominantAttribute = res.profile
+    ? Object.entries(res.profile.attributeHistogram).sort((a, b) => b[1] - a[1])[0]?.[0]
+    : undefined
+  const dominantRace = res.profile
+    ? Object.entries(res.profile.raceHistogram).sort((a, b) => b[1] - a[1])[0]?.[0]
+    : undefined
+  const next = { ...state, archetypes: { ...state.archetypes } }
+  next.archetypes[archetypeName] = {
+    ...state.archetypes[archetypeName]!,
+    representativeCards: res.representativeCards,
+    representativeIndex: res.representativeIndex,
+    extraPolicy: res.extraPolicy,
+    profile: res.profile,
+    imageUrl: cur.imageUrl,
+    representativeCardId: cur.id,
+    dominantAttribute: dominantAttribute !== '_' ? dominantAttribute : undefined,
+    dominantRace: dominantRace !== '_' ? dominantRace : undefined
+  }
+  return next
+}
+
+/** Moves to the next image among the 10 representatives (5 Main + 5 Extra). */
+export function cycleRepresentative (
+  state: TournamentState,
+  archetypeName: string
+): TournamentState {
+  const entry = state.archetypes[archetypeName]
+  const cards = entry?.representativeCards
+  if (!entry || !cards?.length) return state
+  const currentIdx = entry.representativeIndex ?? 0
+  const nextIndex = (currentIdx + 1) % cards.length
+  const cur = cards[nextIndex]
+  if (!cur) return state
+  const next = { ...state, archetypes: { ...state.archetypes } }
+  next.archetypes[archetypeName] = {
+    ...entry,
+    representativeIndex: nextIndex,
+    imageUrl: cur.imageUrl,
+    representativeCardId: cur.id
+  }
+  return next
 }
 
 /** Returns the top N archetypes sorted by Elo desc. */
@@ -80,39 +218,83 @@ export function getTopByElo (
     .slice(0, count)
 }
 
+/** Rating fields of an archetype (newcomer rating if unknown). */
+function ratingOf (entry: ArchetypeState | undefined, model: RatingModel): Rating {
+  if (!entry) return model.initial()
+  const rating: Rating = { elo: entry.elo }
+  if (entry.rd != null) rating.rd = entry.rd
+  if (entry.volatility != null) rating.volatility = entry.volatility
+  return rating
+}
+
+/**
+ * Runs one rating period through the run's rating model.
+ * `games` index into `names`; W/L counters are left to the caller. With position correction,
+ * a significant screen-slot bias measured so far offsets the expected scores.
+ */
+function rateGames (
+  state: TournamentState,
+  names: string[],
+  games: RatedGame[],
+  k: number
+): { archetypes: Record<string, ArchetypeState>; eloDelta: NonNullable<MatchResult['eloDelta']> } {
+  const model = getRatingModel(state.config.ratingModel)
+  const before = names.map(n => ratingOf(state.archetypes[n], model))
+  const offsets = state.config.positionCorrection ? getSlotOffsets(state) : null
+  const after = model.update(before, offsets
+    ? games.map(g => ({ ...g, advantage: (offsets[names[g.a]!] ?? 0) - (offsets[names[g.b]!] ?? 0) }))
+    : games, k)
+  const archetypes = { ...state.archetypes }
+  const eloDelta = names.map((name, i) => {
+    archetypes[name] = { ...(state.archetypes[name] ?? { wins: 0, losses: 0 }), ...after[i]! }
+    return { name, delta: after[i]!.elo - before[i]!.elo, prev: before[i]! }
+  })
+  return { archetypes, eloDelta }
+}
+
+/** Rates a 1v1 result (weighted by the strength of the preference) and updates W/L counters. */
+function rateDuel (
+  state: TournamentState,
+  winner: string,
+  loser: string,
+  k: number,
+  strength?: VoteStrength
+): ReturnType<typeof rateGames> {
+  const rated = rateGames(state, [winner, loser], [{ a: 0, b: 1, scoreA: 1, weight: VOTE_STRENGTH_WEIGHTS[strength ?? 'clear'] }], k)
+  const w = rated.archetypes[winner]!
+  const l = rated.archetypes[loser]!
+  rated.archetypes[winner] = { ...w, wins: w.wins + 1 }
+  rated.archetypes[loser] = { ...l, losses: l.losses + 1 }
+  return rated
+}
+
 /**
  * Applies the result of a group (phase 1 or 2).
- * Returns the new state with phase/round transition if needed.
+ * With `ordered`, `losers` are in finishing order and each card also beats the ones
+ * ranked below it (pairwise split of the full order: 6 games for a group of 4 instead of 3).
+ * `strength` weights every game of the choice. Returns the new state with phase/round transition if needed.
  */
 export function applyGroupResult (
   state: TournamentState,
   winner: string,
-  losers: string[]
+  losers: string[],
+  ordered = false,
+  strength?: VoteStrength
 ): TournamentState {
-  const K = state.phase === 'phase1' ? K_GROUP_DAMPENED : K_GROUP_FULL
-  const winnerEntry = state.archetypes[winner]!
-  const loserElos = losers.map(l => state.archetypes[l]?.elo ?? INITIAL_ELO)
-  const { newWinner, newLosers } = applyGroupElo(winnerEntry.elo, loserElos, K)
-
-  const nextArchetypes = { ...state.archetypes }
-  const eloDelta: { name: string; delta: number }[] = []
-
-  nextArchetypes[winner] = {
-    ...winnerEntry,
-    elo: newWinner,
-    wins: winnerEntry.wins + 1
+  const K = state.phase === 'phase1' ? state.config.kGroupDampened : state.config.kGroupFull
+  const weight = VOTE_STRENGTH_WEIGHTS[strength ?? 'clear']
+  // Winner beats each loser (and, when ordered, each loser beats the ones below it)
+  const games: RatedGame[] = []
+  for (let a = 0; a < (ordered ? losers.length : 1); a++) {
+    for (let b = a + 1; b <= losers.length; b++) games.push({ a, b, scoreA: 1, weight })
   }
-  eloDelta.push({ name: winner, delta: newWinner - winnerEntry.elo })
+  const { archetypes: nextArchetypes, eloDelta } = rateGames(state, [winner, ...losers], games, K)
 
-  for (let i = 0; i < losers.length; i++) {
-    const l = losers[i]!
-    const entry = state.archetypes[l]!
-    nextArchetypes[l] = {
-      ...entry,
-      elo: newLosers[i]!,
-      losses: entry.losses + 1
-    }
-    eloDelta.push({ name: l, delta: newLosers[i]! - entry.elo })
+  const winnerEntry = nextArchetypes[winner]!
+  nextArchetypes[winner] = { ...winnerEntry, wins: winnerEntry.wins + 1 }
+  for (const l of losers) {
+    const entry = nextArchetypes[l]!
+    nextArchetypes[l] = { ...entry, losses: entry.losses + 1 }
   }
 
   const groupsCompleted = state.groupsCompleted + 1
@@ -123,20 +305,19 @@ export function applyGroupResult (
     round: state.round + 1,
     groupsCompleted,
     currentMatch: null,
-    lastMatchResult: {
+    history: [...state.history, {
       phase: state.phase as 'phase1' | 'phase2',
       match: [...(state.currentMatch ?? [])],
       winner,
       losers: [...losers],
+      ...(ordered ? { ordered } : {}),
+      ...(strength ? { strength } : {}),
       eloDelta,
+      prevGroupsCompleted: state.groupsCompleted,
       // Snapshot for restore on phase/round transition undo
-      ...(willAdvance ? {
-        prevGroups: state.currentRoundGroups,
-        prevPhasePool: [...state.phasePool],
-        prevGroupsTotal: state.groupsTotal,
-        prevPhaseRound: state.phaseRound
-      } : {})
-    }
+      ...(willAdvance ? { snapshot: takeSnapshot(state) } : {})
+    }],
+    redoStack: []
   }
 
   // Round finished?
@@ -146,32 +327,142 @@ export function applyGroupResult (
   return next
 }
 
+/** Most archetypes a group can receive from a skipped group. */
+const MAX_GROUP_SIZE = 4
+
+/**
+ * Skips the current group (phases 1-2) without a result. Its archetypes are spread
+ * over the later groups of the round, fewest members first (ties: the latest group),
+ * and a new group is added at the end for those that do not fit. Skipping the last
+ * group of a round simply leaves it unplayed. Undone like a choice.
+ */
+export function applyGroupSkip (state: TournamentState): TournamentState {
+  const groups = (state.currentRoundGroups ?? []).map(g => [...g])
+  const later = groups.slice(state.groupsCompleted + 1)
+  const skipped = seededShuffle(
+    (state.currentMatch ?? []).filter(n => state.archetypes[n]),
+    deriveSeed(state.seed, 'skip', state.round)
+  )
+  const leftover: string[] = []
+  for (const name of later.length ? skipped : []) {
+    const target = later
+      .filter(g => g.length < MAX_GROUP_SIZE)
+      .reduce<string[] | null>((best, g) => (!best || g.length <= best.length ? g : best), null)
+    if (target) target.push(name)
+    else leftover.push(name)
+  }
+  // A lone leftover takes a partner from the last group (which keeps at least 3)
+  if (leftover.length === 1) leftover.unshift(later[later.length - 1]!.pop()!)
+  if (leftover.length) groups.push(leftover)
+
+  const groupsCompleted = state.groupsCompleted + 1
+  const next: TournamentState = {
+    ...state,
+    round: state.round + 1,
+    groupsCompleted,
+    groupsTotal: groups.length,
+    currentRoundGroups: groups,
+    currentMatch: null,
+    history: [...state.history, {
+      phase: state.phase as 'phase1' | 'phase2',
+      match: [...(state.currentMatch ?? [])],
+      winner: '',
+      skipped: true,
+      prevGroupsCompleted: state.groupsCompleted,
+      snapshot: takeSnapshot(state)
+    }],
+    redoStack: []
+  }
+  return groupsCompleted >= groups.length ? advanceToNextPhaseRound(next) : next
+}
+
+/** Deals archetypes (best rated first) into `count` groups in snake order, so each group gets a spread of ratings. */
+function snakeGroups (names: string[], count: number, seed: number): string[][] {
+  const groups: string[][] = Array.from({ length: count }, () => [])
+  names.forEach((name, i) => {
+    const col = i % count
+    groups[Math.floor(i / count) % 2 === 0 ? col : count - 1 - col]!.push(name)
+  })
+  return groups.map((g, i) => seededShuffle(g, deriveSeed(seed, i)))
+}
+
+/**
+ * Cut before the next phase: the `size` best rated of `names`. With a repechage
+ * (`config.repechageSlots`), the last spots are played for first: the archetypes around
+ * the line get one group per spot and the repechage round comes back instead of a pool.
+ * Once that round is over, its group winners take the spots as wildcards.
+ */
+function cutPool (
+  state: TournamentState,
+  names: string[],
+  size: number
+): { pool: string[] } | { round: TournamentState } {
+  const { archetypes, repechage } = state
+  if (repechage) {
+    const candidates = repechage.candidates.filter(n => archetypes[n])
+    const winners = state.history
+      .slice(repechage.historyStart)
+      .filter(e => !e.skipped && candidates.includes(e.winner))
+      .map(e => e.winner)
+    const wildcards = getTopByElo(archetypes, winners, repechage.slots)
+    // Spots left without a winner (skipped groups) go to the best rated candidates
+    const rest = candidates.filter(n => !wildcards.includes(n))
+    wildcards.push(...getTopByElo(archetypes, rest, repechage.slots - wildcards.length))
+    const pool = [...repechage.qualified.filter(n => archetypes[n]), ...wildcards]
+    return { pool: getTopByElo(archetypes, pool, pool.length) }
+  }
+
+  const ranked = getTopByElo(archetypes, names, names.length)
+  const slots = Math.min(state.config.repechageSlots, Math.floor(size / 2))
+  const candidates = ranked.slice(size - slots, size + 3 * slots)
+  if (slots <= 0 || candidates.length <= slots) return { pool: ranked.slice(0, size) }
+  const groups = snakeGroups(
+    candidates,
+    Math.min(slots, Math.floor(candidates.length / 2)),
+    deriveSeed(state.seed, 'repechage', state.phase)
+  )
+  return {
+    round: {
+      ...state,
+      groupsCompleted: 0,
+      groupsTotal: groups.length,
+      currentRoundGroups: groups,
+      repechage: { qualified: ranked.slice(0, size - slots), candidates, slots, historyStart: state.history.length }
+    }
+  }
+}
+
 /**
  * Advances to the next round or next phase when the current round is finished.
  */
 export function advanceToNextPhaseRound (state: TournamentState): TournamentState {
   const next = { ...state }
+  const config = state.config
 
   if (state.phase === 'phase1') {
     const nextPhaseRound = state.phaseRound + 1
-    if (nextPhaseRound >= COVERAGE_ROUND_COUNT) {
-      // → Phase 2: top 50%, groups of 4 (theme / Elo proximity)
-      const poolSize = Math.max(4, Math.ceil(state.remainingNames.length * REFINEMENT_POOL_FRACTION))
-      const pool = getTopByElo(state.archetypes, state.remainingNames, poolSize)
-      const groups = buildEloProximityGroups(pool, state.archetypes, state.seed + 5000)
+    if (nextPhaseRound >= config.coverageRoundCount) {
+      // → Phase 2: top fraction, groups of 4 (theme / Elo proximity)
+      const poolSize = Math.max(4, Math.ceil(state.remainingNames.length * config.refinementPoolFraction))
+      const cut = cutPool(state, state.remainingNames, poolSize)
+      if ('round' in cut) return cut.round
+      const pool = cut.pool
+      const groups = buildEloProximityGroups(pool, state.archetypes, deriveSeed(state.seed, 'phase2', 0))
       next.phase = 'phase2'
       next.phaseRound = 0
       next.groupsCompleted = 0
       next.groupsTotal = groups.length
       next.currentRoundGroups = groups
       next.phasePool = pool
+      next.phasePools = { ...state.phasePools, phase2: [...pool] }
+      next.repechage = null
       // Réinitialiser les représentants pour forcer rechargement + revalidation en phase 2
       const nextArchetypes = { ...next.archetypes }
       for (const name of pool) {
         const entry = nextArchetypes[name]
         if (entry) {
           nextArchetypes[name] = {
-            elo: entry.elo,
+            ...ratingOf(entry, getRatingModel(config.ratingModel)),
             wins: entry.wins,
             losses: entry.losses
           }
@@ -184,7 +475,7 @@ export function advanceToNextPhaseRound (state: TournamentState): TournamentStat
     const groups = buildEloProximityGroups(
       state.remainingNames,
       state.archetypes,
-      state.seed + nextPhaseRound * 1000
+      deriveSeed(state.seed, 'phase1', nextPhaseRound)
     )
     next.phaseRound = nextPhaseRound
     next.groupsCompleted = 0
@@ -195,24 +486,47 @@ export function advanceToNextPhaseRound (state: TournamentState): TournamentStat
 
   if (state.phase === 'phase2') {
     const nextPhaseRound = state.phaseRound + 1
-    if (nextPhaseRound >= REFINEMENT_ROUND_COUNT) {
-      // → Phase 3: top 24 Swiss
-      const poolSize = Math.min(SWISS_POOL_SIZE, state.phasePool.length)
-      const pool = getTopByElo(state.archetypes, state.phasePool, poolSize)
+    if (nextPhaseRound >= config.refinementRoundCount) {
+      if (config.finalPhase !== 'swiss') {
+        // → Bracket: top seeds by Elo, single or double elimination
+        const size = effectiveBracketSize(config.bracketSize, state.phasePool.length)
+        const cut = cutPool(state, state.phasePool, size)
+        if ('round' in cut) return cut.round
+        const seeds = cut.pool
+        next.phase = 'bracket'
+        next.phaseRound = 0
+        next.groupsCompleted = 0
+        next.groupsTotal = 0
+        next.currentRoundGroups = null
+        next.phasePool = seeds
+        next.phasePools = { ...state.phasePools, bracket: [...seeds] }
+        next.repechage = null
+        next.matchesPlayed = []
+        next.bracket = buildBracket(seeds, config.finalPhase === 'double-elimination' ? 'double' : 'single')
+        return next
+      }
+      // → Phase 3: Swiss between the finalists
+      const poolSize = Math.min(config.swissPoolSize, state.phasePool.length)
+      const cut = cutPool(state, state.phasePool, poolSize)
+      if ('round' in cut) return cut.round
+      const pool = cut.pool
       next.phase = 'phase3'
       next.phaseRound = 0
       next.groupsCompleted = 0
       next.groupsTotal = 0
       next.currentRoundGroups = null
       next.phasePool = pool
+      next.phasePools = { ...state.phasePools, phase3: [...pool] }
+      next.repechage = null
       next.matchesPlayed = []
-      return next
+      next.swissByes = []
+      return drawSwissRound(next)
     }
     // Next round in phase 2: re-group by Elo proximity
     const groups = buildEloProximityGroups(
       state.phasePool,
       state.archetypes,
-      state.seed + 5000 + nextPhaseRound * 1000
+      deriveSeed(state.seed, 'phase2', nextPhaseRound)
     )
     next.phaseRound = nextPhaseRound
     next.groupsCompleted = 0
@@ -221,159 +535,295 @@ export function advanceToNextPhaseRound (state: TournamentState): TournamentStat
     return next
   }
 
+  if (state.phase === 'phase3') {
+    // Runs from before Swiss rounds: the current round is drawn first
+    if (!state.currentRoundGroups) return drawSwissRound(next)
+    next.phaseRound = state.phaseRound + 1
+    if (next.phaseRound >= config.swissRoundCount) {
+      // Last round played: nothing left to pair
+      next.groupsCompleted = 0
+      next.groupsTotal = 0
+      next.currentRoundGroups = []
+      return next
+    }
+    return drawSwissRound(next)
+  }
+
+  if (state.phase === 'roundRobin') {
+    const pool = state.phasePools?.roundRobin ?? state.phasePool
+    const pairs = buildRoundRobinSchedule(pool, state.seed)[state.phaseRound + 1] ?? []
+    next.phaseRound = state.phaseRound + 1
+    next.groupsCompleted = 0
+    next.groupsTotal = pairs.length
+    next.currentRoundGroups = pairs
+    return next
+  }
+
   return state
 }
 
+/** Pairs of Swiss round `phaseRound`, with the archetype sitting it out. */
+function drawSwissRound (state: TournamentState): TournamentState {
+  const { pairs, bye } = buildSwissRound(state, state.phasePool)
+  return {
+    ...state,
+    groupsCompleted: 0,
+    groupsTotal: pairs.length,
+    currentRoundGroups: pairs,
+    swissByes: [...(state.swissByes ?? []), bye]
+  }
+}
+
 /** Applies the result of a 1v1 duel (Phase 3 Swiss). */
 export function applyEloResult (
   state: TournamentState,
   winner: string,
-  loser: string
+  loser: string,
+  strength?: VoteStrength
+): TournamentState {
+  const { archetypes, eloDelta } = rateDuel(state, winner, loser, state.config.kSwiss, strength)
+  return recordRoundDuel(state, archetypes, { phase: 'phase3', match: [...(state.currentMatch ?? [])], winner, loser, ...(strength ? { strength } : {}), eloDelta })
+}
+
+/** Phase 3 duel called even: a 0.5 score for both sides. */
+export function applyDrawResult (
+  state: TournamentState,
+  a: string,
+  b: string
+): TournamentState {
+  const { archetypes, eloDelta } = rateGames(state, [a, b], [{ a: 0, b: 1, scoreA: 0.5 }], state.config.kSwiss)
+  for (const name of [a, b]) {
+    const entry = archetypes[name]!
+    archetypes[name] = { ...entry, draws: (entry.draws ?? 0) + 1 }
+  }
+  return recordRoundDuel(state, archetypes, { phase: 'phase3', match: [...(state.currentMatch ?? [])], winner: a, loser: b, draw: true, eloDelta })
+}
+
+/** Applies the result of a round-robin duel. */
+export function applyRoundRobinResult (
+  state: TournamentState,
+  winner: string,
+  loser: string,
+  strength?: VoteStrength
+): TournamentState {
+  const { archetypes, eloDelta } = rateDuel(state, winner, loser, state.config.kSwiss, strength)
+  return recordRoundDuel(state, archetypes, { phase: 'roundRobin', match: [...(state.currentMatch ?? [])], winner, loser, ...(strength ? { strength } : {}), eloDelta })
+}
+
+/** Records a Swiss or round-robin duel; the last pair of a round moves on to the next round. */
+function recordRoundDuel (
+  state: TournamentState,
+  archetypes: Record<string, ArchetypeState>,
+  entry: MatchResult
 ): TournamentState {
-  const w = state.archetypes[winner] ?? { elo: INITIAL_ELO, wins: 0, losses: 0 }
-  const l = state.archetypes[loser] ?? { elo: INITIAL_ELO, wins: 0, losses: 0 }
-  const { newWinner, newLoser } = applyElo(w.elo, l.elo, K_SWISS)
+  const groupsCompleted = state.groupsCompleted + 1
+  // Runs from before Swiss rounds have no round in progress
+  const willAdvance = !!state.currentRoundGroups && groupsCompleted >= state.groupsTotal
+  const next: TournamentState = {
+    ...state,
+    archetypes,
+    matchesPlayed: [...state.matchesPlayed, matchKey(entry.winner, entry.loser!)],
+    round: state.round + 1,
+    groupsCompleted,
+    currentMatch: null,
+    history: [...state.history, {
+      ...entry,
+      prevGroupsCompleted: state.groupsCompleted,
+      ...(willAdvance ? { snapshot: takeSnapshot(state) } : {})
+    }],
+    redoStack: []
+  }
+  return willAdvance ? advanceToNextPhaseRound(next) : next
+}
+
+/** Checks if Phase 3 is done (every Swiss round played, or converged when the run auto-finishes). */
+export function isPhase3Done (state: TournamentState): boolean {
+  if (state.phase !== 'phase3') return false
+  if (state.phasePool.length < 2) return true
+  if (state.phaseRound >= state.config.swissRoundCount) return true
+  return state.config.autoFinishOnConvergence && getConvergence(state).converged
+}
 
-  const nextArchetypes = { ...state.archetypes }
-  nextArchetypes[winner] = { ...w, elo: newWinner, wins: w.wins + 1 }
-  nextArchetypes[loser] = { ...l, elo: newLoser, losses: l.losses + 1 }
+/** Checks if the round robin is done (every round played). */
+export function isRoundRobinDone (state: TournamentState): boolean {
+  if (state.phase !== 'roundRobin') return false
+  const pool = state.phasePools?.roundRobin ?? state.phasePool
+  return state.phaseRound >= roundRobinRoundCount(pool.length)
+}
 
-  const eloDelta = [
-    { name: winner, delta: newWinner - w.elo },
-    { name: loser, delta: newLoser - l.elo }
-  ]
+/** Applies the result of a bracket match (the current one: next playable match). */
+export function applyBracketMatchResult (
+  state: TournamentState,
+  winner: string,
+  loser: string,
+  strength?: VoteStrength
+): TournamentState {
+  const bracket = state.bracket
+  const match = bracket ? getNextBracketMatch(bracket) : null
+  if (!bracket || !match) return state
+  const { archetypes, eloDelta } = rateDuel(state, winner, loser, state.config.kSwiss, strength)
 
   return {
     ...state,
-    archetypes: nextArchetypes,
-    matchesPlayed: [...state.matchesPlayed, matchKey(winner, loser)],
+    archetypes,
+    bracket: applyBracketResult(bracket, match.id, winner),
     round: state.round + 1,
     currentMatch: null,
-    lastMatchResult: {
-      phase: 'phase3',
+    history: [...state.history, {
+      phase: 'bracket',
       match: [...(state.currentMatch ?? [])],
       winner,
       loser,
-      eloDelta
-    }
+      ...(strength ? { strength } : {}),
+      eloDelta,
+      bracketMatchId: match.id
+    }],
+    redoStack: []
   }
 }
 
-/** Checks if Phase 3 is done (Swiss round count reached). */
-export function isPhase3Done (state: TournamentState): boolean {
-  if (state.phase !== 'phase3') return false
-  const pool = state.phasePool
-  const matchesPerRound = Math.floor(pool.length / 2)
-  if (matchesPerRound === 0) return true
-  const totalSwissMatches = matchesPerRound * SWISS_ROUND_COUNT
-  return state.matchesPlayed.length >= totalSwissMatches
+/** Checks if the bracket is done (champion decided). */
+export function isBracketDone (state: TournamentState): boolean {
+  return state.phase === 'bracket' && !!state.bracket?.champion
 }
 
-/** Cancels the last choice. Returns the reverted state or null if nothing to undo. */
+/**
+ * Cancels the last choice. Returns the reverted state or null if nothing to undo.
+ * The cancelled choice is moved to `redoStack`; any number of steps can be undone,
+ * including across round and phase transitions.
+ */
 export function undoLastResult (state: TournamentState): TournamentState | null {
-  const last = state.lastMatchResult
+  const last = state.history[state.history.length - 1]
   if (!last) return null
 
   const prev: TournamentState = {
     ...state,
     archetypes: { ...state.archetypes },
-    lastMatchResult: undefined,
+    history: state.history.slice(0, -1),
+    redoStack: [...state.redoStack, last],
     round: Math.max(0, state.round - 1)
   }
 
-  // Restore Elo via saved deltas
+  // Restore ratings (saved previous rating, or Elo delta for older saves)
   if (last.eloDelta) {
-    for (const { name, delta } of last.eloDelta) {
+    for (const { name, delta, prev: before } of last.eloDelta) {
       const entry = state.archetypes[name]
       if (entry) {
-        prev.archetypes[name] = { ...entry, elo: entry.elo - delta }
+        prev.archetypes[name] = before ? { ...entry, ...before } : { ...entry, elo: entry.elo - delta }
       }
     }
   }
 
+  if (last.skipped && last.snapshot) {
+    // Undo group skip: the round's groups are restored as they were
+    restoreSnapshot(prev, last.snapshot)
+    prev.currentMatch = restoredMatch(prev, last.match)
+    prev.groupsCompleted = last.prevGroupsCompleted ?? Math.max(0, state.groupsCompleted - 1)
+    return prev
+  }
+
   if ((last.phase === 'phase1' || last.phase === 'phase2') && last.losers) {
     // Undo group result
-    prev.archetypes[last.winner] = {
-      ...prev.archetypes[last.winner]!,
-      wins: Math.max(0, prev.archetypes[last.winner]!.wins - 1)
-    }
-    for (const l of last.losers) {
-      prev.archetypes[l] = {
-        ...prev.archetypes[l]!,
-        losses: Math.max(0, prev.archetypes[l]!.losses - 1)
-      }
-    }
+    uncount(prev.archetypes, last.winner, 'wins')
+    for (const l of last.losers) uncount(prev.archetypes, l, 'losses')
     // Restore current match and decrement groupsCompleted
-    prev.currentMatch = last.match
-    // If we had moved to the next phase, restore from snapshot
-    if (state.phase !== last.phase && last.prevGroups !== undefined) {
-      prev.phase = last.phase
-      prev.currentRoundGroups = last.prevGroups
-      prev.phasePool = last.prevPhasePool ?? state.phasePool
-      prev.groupsTotal = last.prevGroupsTotal ?? state.groupsTotal
-      prev.phaseRound = last.prevPhaseRound ?? 0
-      prev.groupsCompleted = (last.prevGroupsTotal ?? 1) - 1
-    } else if (state.phase !== last.phase) {
-      // Fallback : pas de snapshot (ancien format localStorage)
-      prev.phase = last.phase
-      prev.phasePool = state.phase === 'phase2' ? state.remainingNames : state.phasePool
-      prev.groupsCompleted = Math.max(0, state.groupsCompleted - 1)
-      if (last.phase === 'phase1') {
-        prev.phaseRound = Math.max(0, (state.phase === 'phase2' ? COVERAGE_ROUND_COUNT : state.phaseRound) - 1)
-      }
+    prev.currentMatch = restoredMatch(prev, last.match)
+    if (last.snapshot) {
+      // The choice ended a round or a phase: restore its structure
+      restoreSnapshot(prev, last.snapshot)
+      prev.groupsCompleted = last.prevGroupsCompleted ?? Math.max(0, last.snapshot.groupsTotal - 1)
     } else {
-      prev.groupsCompleted = Math.max(0, state.groupsCompleted - 1)
+      prev.groupsCompleted = last.prevGroupsCompleted ?? Math.max(0, state.groupsCompleted - 1)
     }
     return prev
   }
 
-  if (last.phase === 'phase3' && last.loser) {
-    // Undo 1v1 Swiss
-    prev.archetypes[last.winner] = {
-      ...prev.archetypes[last.winner]!,
-      wins: Math.max(0, prev.archetypes[last.winner]!.wins - 1)
-    }
-    prev.archetypes[last.loser] = {
-      ...prev.archetypes[last.loser]!,
-      losses: Math.max(0, prev.archetypes[last.loser]!.losses - 1)
+  if ((last.phase === 'phase3' || last.phase === 'roundRobin') && last.loser) {
+    if (last.draw) {
+      // Undo drawn Swiss duel
+      for (const name of [last.winner, last.loser]) {
+        const current = prev.archetypes[name]
+        if (!current) continue
+        const { draws = 0, ...entry } = current
+        prev.archetypes[name] = draws > 1 ? { ...entry, draws: draws - 1 } : entry
+      }
+    } else {
+      // Undo 1v1 Swiss or round-robin duel
+      uncount(prev.archetypes, last.winner, 'wins')
+      uncount(prev.archetypes, last.loser, 'losses')
     }
-    prev.matchesPlayed = state.matchesPlayed.slice(0, -1)
-    prev.currentMatch = last.match
-    // If we had moved to 'finished', go back to phase3
+    // Pairs with a dropped archetype may have left the list: remove this duel's own key
+    const played = state.matchesPlayed.lastIndexOf(matchKey(last.winner, last.loser))
+    prev.matchesPlayed = state.matchesPlayed.filter((_, i) => i !== played)
+    prev.currentMatch = restoredMatch(prev, last.match)
+    // The duel ended a round: restore the round it belonged to
+    if (last.snapshot) restoreSnapshot(prev, last.snapshot)
+    if (last.prevGroupsCompleted != null) prev.groupsCompleted = last.prevGroupsCompleted
+    // If we had moved to 'finished', go back to the duel's phase
     if (state.phase === 'finished') {
-      prev.phase = 'phase3'
+      prev.phase = last.phase
     }
     return prev
   }
 
+  if (last.phase === 'bracket' && last.loser && last.bracketMatchId && state.bracket) {
+    // Undo bracket match
+    uncount(prev.archetypes, last.winner, 'wins')
+    uncount(prev.archetypes, last.loser, 'losses')
+    prev.bracket = undoBracketResult(state.bracket, last.bracketMatchId)
+    prev.currentMatch = last.match
+    prev.phase = 'bracket'
+    return prev
+  }
+
   return null
 }
 
-export function saveState (state: TournamentState): void {
-  if (import.meta.client) {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
-    } catch {}
-  }
+/**
+ * Replays the most recently undone choice. Returns the new state or null if nothing to redo.
+ * Round/phase transitions are recomputed exactly as when the choice was first made.
+ */
+export function redoLastResult (state: TournamentState): TournamentState | null {
+  const entry = state.redoStack[state.redoStack.length - 1]
+  if (!entry) return null
+  // An archetype of the choice was dropped since: it (and the choices after it) cannot be replayed as made
+  if (entry.match.some(name => !(name in state.archetypes))) return { ...state, redoStack: [] }
+  const at: TournamentState = { ...state, currentMatch: [...entry.match] }
+  let next: TournamentState
+  if (entry.skipped) next = applyGroupSkip(at)
+  else if (entry.phase === 'bracket' && entry.loser) next = applyBracketMatchResult(at, entry.winner, entry.loser, entry.strength)
+  else if (entry.phase === 'phase3' && entry.loser && entry.draw) next = applyDrawResult(at, entry.winner, entry.loser)
+  else if (entry.phase === 'phase3' && entry.loser) next = applyEloResult(at, entry.winner, entry.loser, entry.strength)
+  else if (entry.phase === 'roundRobin' && entry.loser) next = applyRoundRobinResult(at, entry.winner, entry.loser, entry.strength)
+  else next = applyGroupResult(at, entry.winner, entry.losers ?? [], entry.ordered, entry.strength)
+  return { ...next, redoStack: state.redoStack.slice(0, -1) }
+}
+
+/** Saves the run in its slot and makes it the active run. Returns false when storage is full. */
+export function saveState (state: TournamentState): boolean {
+  const saved = saveRun(state)
+  setActiveRunId(state.runId)
+  return saved
 }
 
+/** Loads the active run (moving a single-slot save of older versions into the run slots first). */
 export function loadState (): TournamentState | null {
   if (import.meta.client) {
     try {
-      const raw = localStorage.getItem(STORAGE_KEY)
-      if (!raw) return null
-      return JSON.parse(raw) as TournamentState
-    } catch {
-      return null
-    }
+      const legacy = localStorage.getItem(LEGACY_STORAGE_KEY)
+      if (legacy) {
+        const state = readPersistedRun(legacy, LEGACY_BACKUP_KEY)
+        localStorage.removeItem(LEGACY_STORAGE_KEY)
+        if (state) saveState(state)
+      }
+    } catch {}
+    const runId = getActiveRunId()
+    return runId ? loadRun(runId) : null
   }
   return null
 }
 
+/** Leaves the active run (it stays in the run history). */
 export function clearState (): void {
-  if (import.meta.client) {
-    try {
-      localStorage.removeItem(STORAGE_KEY)
-    } catch {}
-  }
+  setActiveRunId(null)
 }
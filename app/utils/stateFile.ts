@@ -0,0 +1,89 @@
+import type { TournamentState } from '~/types/tournament'
+import type { Vote } from '~/types/ranking'
+import { migrateState, STATE_SCHEMA_VERSION } from '~/utils/stateMigrations'
+import { downloadTextFile } from '~/utils/csv'
+
+/** Marker of a Yugidex tournament file. */
+export const STATE_FILE_FORMAT = 'yugidex-tournament'
+/** Current version of the file layout (bump when it changes incompatibly). */
+export const STATE_FILE_VERSION = 1
+
+/** Downloadable snapshot of a run: full tournament state plus the votes cast in it. */
+export interface TournamentStateFile {
+  format: typeof STATE_FILE_FORMAT
+  version: number
+  exportedAt: string
+  state: TournamentState
+  votes: Vote[]
+}
+
+export type StateFileParseResult =
+  | { ok: true; state: TournamentState; votes: Vote[] }
+  | { ok: false; error: string }
+
+function isObject (v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function isVote (v: unknown): v is Vote {
+  return isObject(v) && typeof v.winnerId === 'string' && typeof v.loserId === 'string' && typeof v.timestamp === 'string'
+}
+
+/**
+ * Votes cast in a run: its own, plus those of the runs it was copied from up to the copy
+ * (the choices it shares with them).
+ */
+export function votesOfRun (state: TournamentState, votes: Vote[]): Vote[] {
+  return votes.filter(vote => vote.runId === state.runId ||
+    !!state.copiedFrom?.some(origin => vote.runId === origin.runId && vote.timestamp <= origin.at))
+}
+
+/** Serializes a run and its votes as a versioned JSON file. */
+export function exportStateFile (state: TournamentState, votes: Vote[]): string {
+  const file: TournamentStateFile = {
+    format: STATE_FILE_FORMAT,
+    version: STATE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    state,
+    votes
+  }
+  return JSON.stringify(file)
+}
+
+/** Parses and validates a tournament file; errors are readable messages for the user. */
+export function parseStateFile (text: string): StateFileParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'This file is not valid JSON (it may be truncated or corrupted).' }
+  }
+  if (!isObject(data) || data.format !== STATE_FILE_FORMAT) {
+    return { ok: false, error: 'This is not a Yugidex tournament file.' }
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { ok: false, error: 'The tournament file has no valid version number.' }
+  }
+  if (data.version > STATE_FILE_VERSION) {
+    return { ok: false, error: `This file was saved by a newer version of Yugidex (file v${data.version}, supported v${STATE_FILE_VERSION}).` }
+  }
+  const schemaVersion = isObject(data.state) ? data.state.schemaVersion : undefined
+  if (typeof schemaVersion === 'number' && schemaVersion > STATE_SCHEMA_VERSION) {
+    return { ok: false, error: `This run was saved by a newer version of Yugidex (state v${schemaVersion}, supported v${STATE_SCHEMA_VERSION}).` }
+  }
+  const migrated = migrateState(data.state)
+  if (!migrated.ok) return { ok: false, error: `The tournament file is corrupted: ${migrated.error}.` }
+  if (data.votes != null && (!Array.isArray(data.votes) || !data.votes.every(isVote))) {
+    return { ok: false, error: 'The tournament file is corrupted: invalid vote log.' }
+  }
+  return {
+    ok: true,
+    state: migrated.state,
+    votes: (data.votes as Vote[] | undefined) ?? []
+  }
+}
+
+/** Triggers download of the tournament file. */
+export function downloadStateFile (state: TournamentState, votes: Vote[]): void {
+  downloadTextFile(exportStateFile(state, votes), `yugidex-run-${state.runId.slice(0, 8)}.json`, 'application/json')
+}
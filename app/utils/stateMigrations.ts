@@ -0,0 +1,214 @@
+import type { TournamentState, MatchResult, PoolPhase, RepresentativeLoad } from '~/types/tournament'
+import { DEFAULT_TOURNAMENT_CONFIG } from '~/types/tournament'
+
+/**
+ * Layout version of the persisted tournament state.
+ * Bump it and append a migration whenever the persisted shape changes.
+ */
+export const STATE_SCHEMA_VERSION = 9
+
+/** A persisted state of any version, before migration. */
+type RawState = Record<string, unknown>
+
+/** Single-slot undo entry of saves from before the multi-level history. */
+interface LegacyMatchResult extends MatchResult {
+  /** Transition snapshot, only set when the choice ended a round */
+  prevGroups?: string[][] | null
+  prevPhasePool?: string[]
+  prevGroupsTotal?: number
+  prevPhaseRound?: number
+}
+
+/** Upgrades a state from version `index` to `index + 1`. */
+const MIGRATIONS: ((s: RawState) => RawState)[] = [
+  // 0 → 1: single-slot `lastMatchResult` becomes the undo/redo history
+  (s) => {
+    const { lastMatchResult, ...rest } = s
+    if (Array.isArray(s.history)) {
+      return { ...rest, redoStack: Array.isArray(s.redoStack) ? s.redoStack : [] }
+    }
+    const history: MatchResult[] = []
+    const last = lastMatchResult as LegacyMatchResult | undefined
+    if (last) {
+      const { prevGroups, prevPhasePool, prevGroupsTotal, prevPhaseRound, ...entry } = last
+      if (prevGroups !== undefined) {
+        entry.snapshot = {
+          phase: last.phase,
+          phaseRound: prevPhaseRound ?? 0,
+          groupsTotal: prevGroupsTotal ?? (s.groupsTotal as number),
+          currentRoundGroups: prevGroups,
+          phasePool: prevPhasePool ?? (s.phasePool as string[]),
+          matchesPlayed: s.matchesPlayed as string[]
+        }
+        history.push(entry)
+      } else if (last.phase === s.phase || (last.phase === 'phase3' && s.phase === 'finished')) {
+        history.push(entry)
+      }
+      // A phase change without snapshot cannot be undone exactly: the entry is dropped
+    }
+    return { ...rest, history, redoStack: [] }
+  },
+  // 1 → 2: per-run format (saves without one used the default format)
+  s => ({ ...s, config: { ...DEFAULT_TOURNAMENT_CONFIG, ...(s.config as object | undefined) } }),
+  // 2 → 3: pools each phase started with (only the full and current pools are known)
+  (s) => {
+    if (s.phasePools) return s
+    const phasePools: Partial<Record<PoolPhase, string[]>> = { phase1: s.remainingNames as string[] }
+    const phase = s.phase as string
+    if (phase === 'phase2' || phase === 'phase3' || phase === 'bracket') phasePools[phase] = s.phasePool as string[]
+    else if (phase === 'finished') phasePools[s.bracket ? 'bracket' : 'phase3'] = s.phasePool as string[]
+    return { ...s, phasePools }
+  },
+  // 3 → 4: groups were always resolved by picking the winner only
+  s => ({ ...s, config: { groupOrdering: 'winner', ...(s.config as object) } }),
+  // 4 → 5: no repechage before the cuts
+  s => ({ ...s, config: { repechageSlots: 0, ...(s.config as object) } }),
+  // 5 → 6: Swiss rounds. A Swiss phase in progress counts its full rounds (no byes were given)
+  // and the next round is paired on resume.
+  (s) => {
+    if (s.phase !== 'phase3' || s.swissByes) return s
+    const perRound = Math.floor((s.phasePool as string[]).length / 2)
+    const rounds = perRound ? Math.floor((s.matchesPlayed as string[]).length / perRound) : 0
+    return {
+      ...s,
+      phaseRound: rounds,
+      groupsCompleted: 0,
+      groupsTotal: 0,
+      currentRoundGroups: null,
+      swissByes: Array.from({ length: rounds }, () => null)
+    }
+  },
+  // 6 → 7: ratings were never corrected for the screen position of the cards
+  s => ({ ...s, config: { positionCorrection: false, ...(s.config as object) } }),
+  // 7 → 8: names were always shown
+  s => ({ ...s, config: { blindMode: 'off', ...(s.config as object) } }),
+  // 8 → 9: `load` events kept the whole representative payload; only the card chosen is logged now
+  (s) => {
+    if (!Array.isArray(s.events)) return s
+    const events = s.events.map((e: unknown) => {
+      if (!isObject(e) || e.type !== 'load' || !('result' in e)) return e
+      const { result, ...event } = e
+      const load = result as RepresentativeLoad
+      return { ...event, card: load?.representativeCards?.length ? load.representativeIndex ?? 0 : null }
+    })
+    return { ...s, events }
+  }
+]
+
+const PHASES = ['phase1', 'phase2', 'phase3', 'bracket', 'roundRobin', 'finished']
+
+function isObject (v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function isStringArray (v: unknown): v is string[] {
+  return Array.isArray(v) && v.every(x => typeof x === 'string')
+}
+
+function isCount (v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= 0
+}
+
+/**
+ * Leaves archetypes that are gone from `archetypes` (dropped for lack of images) out of the
+ * pools and the current match. Saves made before undo cleaned them up still list them.
+ */
+function repairStalePools (s: RawState): RawState {
+  if (!isObject(s.archetypes)) return s
+  const archetypes = s.archetypes
+  const known = (name: string) => name in archetypes
+  const prune = (v: unknown) => isStringArray(v) ? v.filter(known) : v
+  const next: RawState = { ...s, remainingNames: prune(s.remainingNames), phasePool: prune(s.phasePool) }
+  if (isObject(s.phasePools)) {
+    // The round-robin schedule is drawn from its starting pool: kept as drawn
+    next.phasePools = Object.fromEntries(Object.entries(s.phasePools).map(([phase, pool]) => [phase, phase === 'roundRobin' ? pool : prune(pool)]))
+  }
+  if (isStringArray(s.currentMatch)) {
+    const shown = s.currentMatch.filter(known)
+    next.currentMatch = shown.length >= 2 ? shown : null
+  }
+  if (isObject(s.repechage)) {
+    next.repechage = { ...s.repechage, qualified: prune(s.repechage.qualified), candidates: prune(s.repechage.candidates) }
+  }
+  return next
+}
+
+/** First structural problem of a (current version) tournament state, or null when it is usable. */
+export function getStateProblem (s: unknown): string | null {
+  if (!isObject(s)) return 'missing tournament state'
+  if (typeof s.runId !== 'string' || !s.runId) return 'missing run id'
+  if (typeof s.seed !== 'number') return 'missing seed'
+  if (typeof s.phase !== 'string' || !PHASES.includes(s.phase)) return `unknown phase "${String(s.phase)}"`
+  if (!isObject(s.config)) return 'invalid format settings'
+  if (!isObject(s.archetypes)) return 'missing archetypes'
+  for (const [name, a] of Object.entries(s.archetypes)) {
+    if (!isObject(a) || typeof a.elo !== 'number' || !Number.isFinite(a.elo) || !isCount(a.wins) || !isCount(a.losses)) {
+      return `invalid rating for "${name}"`
+    }
+  }
+  const known = (n: string) => n in (s.archetypes as Record<string, unknown>)
+  if (!isStringArray(s.remainingNames) || !s.remainingNames.every(known)) return 'invalid archetype list'
+  if (!isStringArray(s.phasePool) || !s.phasePool.every(known)) return 'invalid phase pool'
+  if (!isStringArray(s.matchesPlayed)) return 'invalid played matches'
+  if (s.currentMatch != null && (!isStringArray(s.currentMatch) || !s.currentMatch.every(known))) return 'invalid current match'
+  if (s.currentRoundGroups != null && (!Array.isArray(s.currentRoundGroups) || !s.currentRoundGroups.every(isStringArray))) {
+    return 'invalid round groups'
+  }
+  for (const key of ['round', 'phaseRound', 'groupsCompleted', 'groupsTotal'] as const) {
+    if (!isCount(s[key])) return `invalid ${key}`
+  }
+  if (s.bracket != null && (!isObject(s.bracket) || !Array.isArray(s.bracket.matches) || !isStringArray(s.bracket.seeds))) {
+    return 'invalid bracket'
+  }
+  if (s.repechage != null && (
+    !isObject(s.repechage) || !isStringArray(s.repechage.qualified) || !isStringArray(s.repechage.candidates) ||
+    !isCount(s.repechage.slots) || !isCount(s.repechage.historyStart)
+  )) {
+    return 'invalid repechage'
+  }
+  if (s.swissByes != null && (!Array.isArray(s.swissByes) || !s.swissByes.every(n => n === null || typeof n === 'string'))) {
+    return 'invalid Swiss byes'
+  }
+  for (const key of ['history', 'redoStack'] as const) {
+    if (!Array.isArray(s[key])) return `invalid ${key}`
+    for (const e of s[key] as unknown[]) {
+      if (!isObject(e) || typeof e.phase !== 'string' || typeof e.winner !== 'string' || !isStringArray(e.match)) {
+        return `invalid ${key} entry`
+      }
+    }
+  }
+  if (s.copiedFrom != null && (!Array.isArray(s.copiedFrom) || !s.copiedFrom.every(o => isObject(o) && typeof o.runId === 'string' && typeof o.at === 'string'))) {
+    return 'invalid copy origin'
+  }
+  if (s.events != null && (!Array.isArray(s.events) || !s.events.every(e => isObject(e) && typeof e.type === 'string'))) {
+    return 'invalid event log'
+  }
+  return null
+}
+
+export type StateMigrationResult =
+  | { ok: true; state: TournamentState }
+  | { ok: false; error: string }
+
+/**
+ * Upgrades a persisted state to STATE_SCHEMA_VERSION through the migration chain,
+ * then checks its structure. Never throws: unusable saves come back as an error.
+ */
+export function migrateState (raw: unknown): StateMigrationResult {
+  if (!isObject(raw)) return { ok: false, error: 'missing tournament state' }
+  const from = raw.schemaVersion ?? 0
+  if (!isCount(from)) return { ok: false, error: 'invalid schema version' }
+  if (from > STATE_SCHEMA_VERSION) {
+    return { ok: false, error: `saved by a newer version (schema v${from}, supported v${STATE_SCHEMA_VERSION})` }
+  }
+  let state: RawState = raw
+  try {
+    for (let v = from; v < STATE_SCHEMA_VERSION; v++) state = MIGRATIONS[v]!(state)
+  } catch {
+    return { ok: false, error: `cannot upgrade from schema v${from}` }
+  }
+  state = repairStalePools({ ...state, schemaVersion: STATE_SCHEMA_VERSION })
+  const problem = getStateProblem(state)
+  if (problem) return { ok: false, error: problem }
+  return { ok: true, state: state as unknown as TournamentState }
+}
@@ -0,0 +1,100 @@
+import type { TournamentState } from '~/types/tournament'
+
+/** A line of the Swiss standings table. */
+export interface SwissStanding {
+  rank: number
+  name: string
+  /** Match points: 1 per win or bye, ½ per draw */
+  points: number
+  wins: number
+  draws: number
+  losses: number
+  byes: number
+  /** Sum of the opponents' match points */
+  buchholz: number
+  /** Match points of the beaten opponents, plus half those of the drawn ones */
+  sonnebornBerger: number
+  elo: number
+}
+
+interface Tally {
+  name: string
+  points: number
+  wins: number
+  draws: number
+  losses: number
+  byes: number
+  /** Score against each opponent met (one item per duel) */
+  results: { opponent: string; score: number }[]
+}
+
+/**
+ * Swiss standings of `pool` from the Phase 3 duels and byes of the run. Ties on match points
+ * are broken by Buchholz, then Sonneborn-Berger, then the duels among the tied archetypes,
+ * then rating.
+ */
+export function getSwissStandings (state: TournamentState, pool: string[] = state.phasePool): SwissStanding[] {
+  const tallies = new Map<string, Tally>(pool.map(name => [name, {
+    name, points: 0, wins: 0, draws: 0, losses: 0, byes: 0, results: []
+  }]))
+
+  // A bye scores once its round is over (rounds before `phaseRound`)
+  for (const name of (state.swissByes ?? []).slice(0, state.phaseRound)) {
+    const tally = name ? tallies.get(name) : undefined
+    if (!tally) continue
+    tally.points++
+    tally.byes++
+  }
+  for (const entry of state.history) {
+    if (entry.phase !== 'phase3' || !entry.loser) continue
+    const a = tallies.get(entry.winner)
+    const b = tallies.get(entry.loser)
+    const scoreA = entry.draw ? 0.5 : 1
+    if (a) {
+      a.points += scoreA
+      if (entry.draw) a.draws++
+      else a.wins++
+      a.results.push({ opponent: entry.loser, score: scoreA })
+    }
+    if (b) {
+      b.points += 1 - scoreA
+      if (entry.draw) b.draws++
+      else b.losses++
+      b.results.push({ opponent: entry.winner, score: 1 - scoreA })
+    }
+  }
+
+  const pointsOf = (name: string) => tallies.get(name)?.points ?? 0
+  const rows = [...tallies.values()].map(tally => ({
+    ...tally,
+    buchholz: tally.results.reduce((sum, r) => sum + pointsOf(r.opponent), 0),
+    sonnebornBerger: tally.results.reduce((sum, r) => sum + r.score * pointsOf(r.opponent), 0),
+    elo: Math.round(state.archetypes[tally.name]?.elo ?? 0)
+  }))
+  const tieKey = (r: typeof rows[number]) => `${r.points}|${r.buchholz}|${r.sonnebornBerger}`
+  rows.sort((a, b) => b.points - a.points || b.buchholz - a.buchholz || b.sonnebornBerger - a.sonnebornBerger)
+
+  // Still tied: score of the duels played among the tied archetypes, then rating
+  const ordered: typeof rows = []
+  for (let start = 0; start < rows.length;) {
+    let end = start + 1
+    while (end < rows.length && tieKey(rows[end]!) === tieKey(rows[start]!)) end++
+    const tied = rows.slice(start, end)
+    const names = new Set(tied.map(r => r.name))
+    const headToHead = new Map(tied.map(r => [
+      r.name,
+      r.results.reduce((sum, res) => sum + (names.has(res.opponent) ? res.score : 0), 0)
+    ]))
+    tied.sort((a, b) => headToHead.get(b.name)! - headToHead.get(a.name)! || b.elo - a.elo || a.name.localeCompare(b.name))
+    ordered.push(...tied)
+    start = end
+  }
+
+  return ordered.map(({ results, ...row }, i) => ({ ...row, rank: i + 1 }))
+}
+
+/** Final order of the Swiss finalists (standings), or null when the run played no Swiss rounds. */
+export function getSwissPlacement (state: TournamentState): string[] | null {
+  if (!state.swissByes || (state.phase !== 'phase3' && state.phase !== 'finished')) return null
+  return getSwissStandings(state).map(s => s.name)
+}
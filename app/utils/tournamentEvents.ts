@@ -0,0 +1,99 @@
+import type { TournamentState, TournamentConfig, TournamentEvent, RatingSeed, RepresentativeLoad } from '~/types/tournament'
+import {
+  createInitialState,
+  applyGroupResult,
+  applyEloResult,
+  applyBracketMatchResult,
+  applyDrawResult,
+  applyRoundRobinResult,
+  applyGroupSkip,
+  advanceToNextPhaseRound,
+  undoLastResult,
+  redoLastResult,
+  applyRepresentativeResult,
+  cycleRepresentative
+} from '~/utils/state'
+
+/** Cards fetched at the time of a `load` event of a replayed log (its archetype and timestamp). */
+export type CardSource = (event: Extract<TournamentEvent, { type: 'load' }>) => RepresentativeLoad | undefined
+
+/** State after one event, without touching the log. */
+function reduce (state: TournamentState, event: TournamentEvent, loaded?: RepresentativeLoad): TournamentState {
+  switch (event.type) {
+    case 'start':
+      throw new Error('A run can only be started once')
+    case 'advance':
+      return advanceToNextPhaseRound(state)
+    case 'skip':
+      return { ...state, groupsCompleted: state.groupsCompleted + 1 }
+    case 'show':
+      return { ...state, currentMatch: [...event.match] }
+    case 'load':
+      if (event.card === null) return applyRepresentativeResult(state, event.name, null)
+      // Replayed without the cards: the archetype stays, without images
+      if (!loaded?.representativeCards.length) return state
+      return applyRepresentativeResult(state, event.name, { ...loaded, representativeIndex: event.card })
+    case 'pick': {
+      const at: TournamentState = { ...state, currentMatch: [...event.match] }
+      if (event.phase === 'bracket') return applyBracketMatchResult(at, event.winner, event.losers[0]!, event.strength)
+      if (event.phase === 'phase3' && event.draw) return applyDrawResult(at, event.winner, event.losers[0]!)
+      if (event.phase === 'phase3') return applyEloResult(at, event.winner, event.losers[0]!, event.strength)
+      if (event.phase === 'roundRobin') return applyRoundRobinResult(at, event.winner, event.losers[0]!, event.strength)
+      return applyGroupResult(at, event.winner, event.losers, event.ordered, event.strength)
+    }
+    case 'skipGroup':
+      return applyGroupSkip({ ...state, currentMatch: [...event.match] })
+    case 'cycle':
+      return cycleRepresentative(state, event.name)
+    case 'finish':
+      return { ...state, phase: 'finished', currentMatch: null }
+    case 'undo':
+      return undoLastResult(state) ?? state
+    case 'redo':
+      return redoLastResult(state) ?? state
+    case 'dismissConvergence':
+      return { ...state, convergenceDismissedAt: event.rounds }
+  }
+}
+
+/**
+ * Folds one event into the state (pure). The event is appended to `state.events`
+ * when the run keeps a log (runs started before the log get the new state only).
+ * A `load` event comes with the cards fetched (`loaded`), which the log does not keep.
+ */
+export function applyEvent (state: TournamentState, event: TournamentEvent, loaded?: RepresentativeLoad): TournamentState {
+  const next = reduce(state, event, loaded)
+  return state.events ? { ...next, events: [...state.events, event] } : next
+}
+
+/**
+ * Rebuilds a run from its event log: same seed, format and events give the exact same state.
+ * Replaying a prefix of the log gives the run as it was at that point. The representative
+ * cards of `load` events come from `cards` (archetypes are left without images otherwise).
+ */
+export function replay (seed: number, config: TournamentConfig, events: TournamentEvent[], cards?: CardSource): TournamentState {
+  const [start, ...rest] = events
+  if (start?.type !== 'start') throw new Error('The event log must begin with a start event')
+  let state: TournamentState = {
+    ...createInitialState(start.names, seed, config, start.ratingSeed),
+    runId: start.runId,
+    createdAt: start.createdAt,
+    ...(start.copiedFrom ? { copiedFrom: start.copiedFrom } : {}),
+    events: [start]
+  }
+  for (const event of rest) state = applyEvent(state, event, event.type === 'load' ? cards?.(event) : undefined)
+  return state
+}
+
+/** Creates a new run over `names` with its event log (starting from `ratingSeed` when given). */
+export function startRun (names: string[], seed: number, config?: TournamentConfig, ratingSeed?: RatingSeed): TournamentState {
+  const initial = createInitialState(names, seed, config, ratingSeed)
+  return replay(seed, initial.config, [{
+    type: 'start',
+    runId: initial.runId,
+    createdAt: initial.createdAt,
+    names: [...names],
+    ...(ratingSeed ? { ratingSeed } : {}),
+    at: initial.createdAt
+  }])
+}